@@ -1,12 +1,399 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from "npm:@blinkdotnew/sdk"
+import { z } from "npm:zod@^4.0.5"
 
-interface GeminiRequest {
-  type: 'text' | 'audio'
-  content: string
-  systemInstruction?: string
+const LIVE_API_URL = 'wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent'
+// Models the browser may ask for. TEXT_MODELS covers the classic 'gemini' entries and LIVE_MODELS the live
+// entries in src/services/modelCatalog.ts.
+const TEXT_MODELS = ['gemini-2.0-flash-exp', 'gemini-1.5-flash', 'gemini-1.5-pro'] as const
+const LIVE_MODELS = ['gemini-2.0-flash-exp', 'gemini-2.0-flash-live-001']
+const DEFAULT_TEXT_MODEL = 'gemini-2.0-flash-exp'
+const DEFAULT_LIVE_MODEL = 'gemini-2.0-flash-exp'
+const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.7,
+  topK: 40,
+  topP: 0.95,
+  maxOutputTokens: 2048,
+}
+const MAX_HISTORY_MESSAGES = 200
+const DEFAULT_SYSTEM_INSTRUCTION = "You are ZAIVA, a sophisticated AI assistant created specifically for Lukas Rejchrt. You are helpful, intelligent, and have a warm, professional personality. Keep responses conversational and natural."
+
+// Verifies a Blink access token by asking the auth API who it belongs to
+async function authenticate(token: string) {
+  try {
+    const blink = createClient({
+      projectId: 'zaiva-voice-ai-assistant-zip87ef6',
+      authRequired: false
+    })
+    await blink.auth.setToken(token)
+    return await blink.auth.me()
+  } catch (error) {
+    console.error('Relay authentication failed:', error.message)
+    return null
+  }
+}
+
+// --- Text request contract ---
+
+const GenerationConfigSchema = z.object({
+  temperature: z.number().min(0).max(2),
+  topK: z.number().int().min(1).max(100),
+  topP: z.number().min(0).max(1),
+  maxOutputTokens: z.number().int().min(1).max(8192),
+}).partial()
+
+type GenerationConfig = Required<z.infer<typeof GenerationConfigSchema>>
+
+const HistoryMessageSchema = z.object({
+  role: z.enum(['system', 'user', 'assistant']),
+  content: z.string(),
+})
+
+const TextRequestSchema = z.object({
+  // 'audio' content is base64 audio of mimeType, answered directly without a transcript
+  type: z.enum(['text', 'audio']).default('text'),
+  content: z.string().min(1, 'must not be empty'),
+  mimeType: z.string().regex(/^audio\//, 'must be an audio type').default('audio/webm'),
+  // Earlier turns, oldest first; 'system' entries (e.g. summaries of older turns) join the system instruction
+  history: z.array(HistoryMessageSchema).max(MAX_HISTORY_MESSAGES).default([]),
+  systemInstruction: z.string().optional(),
+  model: z.enum(TEXT_MODELS).default(DEFAULT_TEXT_MODEL),
+  generationConfig: GenerationConfigSchema.default({}),
+  tools: z.object({
+    // Ground the answer with Google Search
+    search: z.boolean().default(true),
+    codeExecution: z.boolean().default(false),
+  }).default({ search: true, codeExecution: false }),
+  // Relay the answer as server-sent events while it is generated
+  stream: z.boolean().default(false),
+})
+
+type TextRequest = z.infer<typeof TextRequestSchema>
+
+// What every text answer comes back as, whichever model wrote it
+interface ZaivaResponse {
+  text: string
+  citations: Citation[]
+  usage: { promptTokens: number; outputTokens: number; totalTokens: number } | null
+  finishReason: 'stop' | 'length' | 'safety' | 'other' | null
+  model: string
+}
+
+// Offsets are UTF-16 indexes into text; sources consulted without a particular sentence have none
+interface Citation {
+  startIndex?: number
+  endIndex?: number
+  uri: string
+  title: string
+}
+
+// Streamed answers arrive as deltas followed by a single 'done' (or 'error') event
+type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ZaivaResponse }
+  | { type: 'error'; error: string; details: string }
+
+// The parts of a Gemini answer that make up a ZaivaResponse; streamed chunks are folded into one of these
+interface GeminiAnswer {
+  text: string
+  groundingMetadata?: any
+  usageMetadata?: any
+  finishReason?: string
+  blockReason?: string
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...CORS_HEADERS, ...headers },
+  })
+}
+
+function invalidRequest(details: string[]) {
+  return jsonResponse({ error: 'Invalid request', details, timestamp: new Date().toISOString() }, 400)
+}
+
+function buildGenerationConfig(requested: TextRequest['generationConfig']): GenerationConfig {
+  return { ...DEFAULT_GENERATION_CONFIG, ...requested }
+}
+
+function buildGeminiRequest(request: TextRequest) {
+  const systemNotes = request.history.filter(message => message.role === 'system').map(message => message.content)
+  const turns = request.history.filter(message => message.role !== 'system' && message.content.trim())
+  const lastPart = request.type === 'audio'
+    ? { inlineData: { mimeType: request.mimeType, data: request.content } }
+    : { text: request.content }
+
+  const tools = [
+    ...(request.tools.search ? [{ googleSearchRetrieval: {} }] : []),
+    ...(request.tools.codeExecution ? [{ codeExecution: {} }] : []),
+  ]
+
+  return {
+    contents: [
+      ...turns.map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+      { role: 'user', parts: [lastPart] },
+    ],
+    systemInstruction: {
+      parts: [{
+        text: [request.systemInstruction || DEFAULT_SYSTEM_INSTRUCTION, ...systemNotes].join('\n\n')
+      }]
+    },
+    generationConfig: buildGenerationConfig(request.generationConfig),
+    tools: tools.length > 0 ? tools : undefined,
+  }
+}
+
+// Text of a response or streamed chunk; grounding offsets refer to all parts joined together
+function candidateText(data: any): string {
+  return (data.candidates?.[0]?.content?.parts ?? []).map((part: any) => part.text ?? '').join('')
+}
+
+// Folds a response (or the next streamed chunk) into what is known about the answer so far
+function foldAnswer(answer: GeminiAnswer, data: any, text: string): GeminiAnswer {
+  const candidate = data.candidates?.[0]
+  return {
+    text: answer.text + text,
+    groundingMetadata: candidate?.groundingMetadata ?? answer.groundingMetadata,
+    usageMetadata: data.usageMetadata ?? answer.usageMetadata,
+    finishReason: candidate?.finishReason ?? answer.finishReason,
+    blockReason: data.promptFeedback?.blockReason ?? answer.blockReason,
+  }
+}
+
+// Gemini segment offsets count UTF-8 bytes; JavaScript strings are indexed in UTF-16 code units
+function utf8OffsetToIndex(text: string, byteOffset: number): number {
+  let bytes = 0
+  let index = 0
+  while (index < text.length && bytes < byteOffset) {
+    const codePoint = text.codePointAt(index)!
+    bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+    index += codePoint > 0xffff ? 2 : 1
+  }
+  return index
+}
+
+function extractCitations(metadata: any, text: string): Citation[] {
+  if (!metadata) return []
+
+  const chunks: any[] = metadata.groundingChunks ?? []
+  const citedChunks = new Set<number>()
+  const citations: Citation[] = []
+
+  for (const support of metadata.groundingSupports ?? []) {
+    if (support.segment?.endIndex === undefined) continue
+    const startIndex = utf8OffsetToIndex(text, support.segment.startIndex ?? 0)
+    const endIndex = utf8OffsetToIndex(text, support.segment.endIndex)
+
+    for (const chunkIndex of support.groundingChunkIndices ?? []) {
+      const web = chunks[chunkIndex]?.web
+      if (!web?.uri) continue
+      citedChunks.add(chunkIndex)
+      citations.push({ startIndex, endIndex, uri: web.uri, title: web.title || 'Web Source' })
+    }
+  }
+
+  chunks.forEach((chunk, chunkIndex) => {
+    if (citedChunks.has(chunkIndex) || !chunk.web?.uri) return
+    citations.push({ uri: chunk.web.uri, title: chunk.web.title || 'Web Source' })
+  })
+
+  return citations
+}
+
+function normalizeFinishReason({ finishReason, blockReason }: GeminiAnswer): ZaivaResponse['finishReason'] {
+  if (blockReason) return 'safety'
+  switch (finishReason) {
+    case undefined: return null
+    case 'STOP': return 'stop'
+    case 'MAX_TOKENS': return 'length'
+    case 'SAFETY':
+    case 'PROHIBITED_CONTENT':
+    case 'BLOCKLIST':
+    case 'SPII':
+      return 'safety'
+    default: return 'other'
+  }
+}
+
+function toZaivaResponse(answer: GeminiAnswer, model: string): ZaivaResponse {
+  const usage = answer.usageMetadata
+  return {
+    text: answer.text,
+    citations: extractCitations(answer.groundingMetadata, answer.text),
+    usage: usage
+      ? {
+          promptTokens: usage.promptTokenCount ?? 0,
+          outputTokens: usage.candidatesTokenCount ?? 0,
+          totalTokens: usage.totalTokenCount ?? 0,
+        }
+      : null,
+    finishReason: normalizeFinishReason(answer),
+    model,
+  }
+}
+
+// Data of each server-sent event in Gemini's stream
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true })
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = events.pop() ?? ''
+
+    for (const event of events) {
+      const data = event.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n')
+      if (data) yield data
+    }
+  }
+}
+
+// Re-frames Gemini's stream as StreamEvents, resolving citations once the whole answer is known
+function normalizeStream(upstream: ReadableStream<Uint8Array>, model: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: StreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+      }
+
+      let answer: GeminiAnswer = { text: '' }
+      try {
+        for await (const event of readEvents(upstream)) {
+          const data = JSON.parse(event)
+          const delta = candidateText(data)
+          answer = foldAnswer(answer, data, delta)
+          if (delta) send({ type: 'delta', text: delta })
+        }
+        send({ type: 'done', response: toZaivaResponse(answer, model) })
+      } catch (error) {
+        console.error('Gemini stream failed:', error.message)
+        send({ type: 'error', error: 'Gemini stream failed', details: error.message })
+      }
+      if (!cancelled) controller.close()
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+}
+
+// The first client frame must be a setup message. The relay restricts the model to LIVE_MODELS and
+// adds a default system instruction so a browser cannot point our key at anything else.
+function injectSetup(frame: string): string {
+  const message = JSON.parse(frame)
+  if (!message.setup) {
+    throw new Error('First message must be a setup message')
+  }
+
+  const requestedModel = String(message.setup.model ?? '').replace(/^models\//, '')
+  message.setup.model = `models/${LIVE_MODELS.includes(requestedModel) ? requestedModel : DEFAULT_LIVE_MODEL}`
+  message.setup.systemInstruction ??= {
+    parts: [{ text: DEFAULT_SYSTEM_INSTRUCTION }]
+  }
+
+  return JSON.stringify(message)
+}
+
+// Only 1000 and 3000-4999 may be sent by an endpoint; map everything else to 1011
+function relayClose(socket: WebSocket, code: number, reason: string) {
+  if (socket.readyState !== WebSocket.OPEN && socket.readyState !== WebSocket.CONNECTING) return
+  const safeCode = code === 1000 || (code >= 3000 && code < 5000) ? code : 1011
+  socket.close(safeCode, reason.slice(0, 120))
+}
+
+async function handleLiveRelay(req: Request): Promise<Response> {
+  const token = new URL(req.url).searchParams.get('access_token')
+  const user = token ? await authenticate(token) : null
+
+  if (!user) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  const apiKey = Deno.env.get('GEMINI_API_KEY')
+  if (!apiKey) {
+    console.error('GEMINI_API_KEY not found in environment')
+    return new Response(JSON.stringify({ error: 'API key not configured' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+
+  const { socket: client, response } = Deno.upgradeWebSocket(req)
+  const upstream = new WebSocket(`${LIVE_API_URL}?key=${apiKey}`)
+  upstream.binaryType = 'arraybuffer'
+
+  // Client frames that arrive before the upstream connection is open
+  const pending: string[] = []
+  let hasSetup = false
+
+  console.log('Live relay opened for user:', user.id)
+
+  client.onmessage = (event) => {
+    try {
+      const frame = typeof event.data === 'string' ? event.data : new TextDecoder().decode(event.data)
+      const outgoing = hasSetup ? frame : injectSetup(frame)
+      hasSetup = true
+
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(outgoing)
+      } else {
+        pending.push(outgoing)
+      }
+    } catch (error) {
+      console.error('Rejected client frame:', error.message)
+      relayClose(client, 4400, error.message)
+      relayClose(upstream, 1000, 'Client sent an invalid frame')
+    }
+  }
+
+  upstream.onopen = () => {
+    pending.splice(0).forEach(frame => upstream.send(frame))
+  }
+
+  // The Live API sends JSON in binary frames; hand it to the browser as text
+  upstream.onmessage = (event) => {
+    if (client.readyState !== WebSocket.OPEN) return
+    client.send(typeof event.data === 'string' ? event.data : new TextDecoder().decode(event.data))
+  }
+
+  upstream.onclose = (event) => {
+    console.log('Live upstream closed:', { code: event.code, reason: event.reason })
+    relayClose(client, event.code, event.reason || 'Upstream closed')
+  }
+
+  upstream.onerror = () => {
+    console.error('Live upstream error')
+    relayClose(client, 1011, 'Upstream connection failed')
+  }
+
+  client.onclose = () => {
+    relayClose(upstream, 1000, 'Client disconnected')
+  }
+
+  return response
 }
 
 serve(async (req) => {
+  // Live API relay: the browser never sees the Gemini key
+  if (req.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+    return handleLiveRelay(req)
+  }
+
   // Handle CORS
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -27,84 +414,95 @@ serve(async (req) => {
     })
   }
 
+  // Text requests spend the same key as the relay, so they need the same Blink sign-in
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  const user = token ? await authenticate(token) : null
+  if (!user) {
+    return jsonResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return invalidRequest(['body: must be JSON'])
+  }
+
+  const parsed = TextRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return invalidRequest(parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`))
+  }
+  const request = parsed.data
+
   try {
-    const { type, content, systemInstruction } = await req.json() as GeminiRequest
     const apiKey = Deno.env.get('GEMINI_API_KEY')
     
-    console.log('Function called with:', { type, contentLength: content?.length, hasApiKey: !!apiKey })
+    console.log('Function called with:', {
+      userId: user.id,
+      type: request.type,
+      model: request.model,
+      stream: request.stream,
+      contentLength: request.content.length,
+      historyLength: request.history.length,
+      hasApiKey: !!apiKey
+    })
     
     if (!apiKey) {
       console.error('GEMINI_API_KEY not found in environment')
-      return new Response(JSON.stringify({ 
+      return jsonResponse({
         error: 'API key not configured',
         details: 'GEMINI_API_KEY environment variable is missing'
-      }), {
-        status: 500,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        }
-      })
+      }, 500)
     }
 
-    // For now, use the regular Gemini API for text generation
-    // The Live API requires WebSocket which is complex to proxy
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`, {
+    // Text requests use the regular Gemini API; streaming asks for SSE framing
+    const endpoint = request.stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?'
+    // req.signal fires when the browser aborts, so a cancelled answer stops costing tokens
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${request.model}:${endpoint}key=${apiKey}`, {
       method: 'POST',
+      signal: req.signal,
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: content
-          }]
-        }],
-        systemInstruction: {
-          parts: [{
-            text: systemInstruction || "You are ZAIVA, a sophisticated AI assistant created specifically for Lukas Rejchrt. You are helpful, intelligent, and have a warm, professional personality. Keep responses conversational and natural."
-          }]
-        },
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 2048,
-        },
-        tools: [{
-          googleSearchRetrieval: {}
-        }]
-      })
+      body: JSON.stringify(buildGeminiRequest(request))
     })
 
+    // Pass Gemini's status and Retry-After through so the client can tell rate limits from outages
     if (!response.ok) {
       const errorText = await response.text()
       console.error(`Gemini API error: ${response.status} - ${errorText}`)
-      throw new Error(`Gemini API error: ${response.status} - ${errorText}`)
+      const retryAfter = response.headers.get('Retry-After')
+      return jsonResponse({
+        error: 'Gemini API error',
+        details: errorText,
+        timestamp: new Date().toISOString()
+      }, response.status, {
+        'Access-Control-Expose-Headers': 'Retry-After',
+        ...(retryAfter ? { 'Retry-After': retryAfter } : {}),
+      })
+    }
+
+    if (request.stream) {
+      return new Response(normalizeStream(response.body!, request.model), {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          ...CORS_HEADERS,
+        },
+      })
     }
 
     const data = await response.json()
     console.log('Gemini API response received successfully')
     
-    return new Response(JSON.stringify(data), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-    })
+    return jsonResponse(toZaivaResponse(foldAnswer({ text: '' }, data, candidateText(data)), request.model))
 
   } catch (error) {
     console.error('Function error:', error)
-    return new Response(JSON.stringify({ 
+    return jsonResponse({
       error: 'Failed to process request',
       details: error.message,
       timestamp: new Date().toISOString()
-    }), {
-      status: 500,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      }
-    })
+    }, 500)
   }
 })
\ No newline at end of file
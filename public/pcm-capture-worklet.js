@@ -0,0 +1,55 @@
+// ZAIVA PCM Capture Worklet
+// Downsamples microphone input to 16 kHz mono and posts Int16 frames to the main thread
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+
+    const { targetSampleRate = 16000, frameDurationMs = 40 } = options.processorOptions || {}
+    // sampleRate is the AudioContext rate, provided by the worklet global scope
+    this.ratio = sampleRate / targetSampleRate
+    this.frame = new Int16Array(Math.round((targetSampleRate * frameDurationMs) / 1000))
+    this.frameOffset = 0
+    this.readPosition = 0
+
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === 'flush') {
+        this.postFrame()
+        this.port.postMessage({ type: 'end' })
+      }
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0]
+    if (!channel) return true
+
+    // Box-filter decimation: average every `ratio` input samples into one output sample
+    while (this.readPosition + this.ratio <= channel.length) {
+      const start = Math.floor(this.readPosition)
+      const end = Math.max(start + 1, Math.floor(this.readPosition + this.ratio))
+      let sum = 0
+      for (let i = start; i < end; i++) sum += channel[i]
+
+      const sample = Math.max(-1, Math.min(1, sum / (end - start)))
+      this.frame[this.frameOffset++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff
+
+      if (this.frameOffset === this.frame.length) this.postFrame()
+      this.readPosition += this.ratio
+    }
+
+    this.readPosition -= channel.length
+    if (this.readPosition < 0) this.readPosition = 0
+    return true
+  }
+
+  postFrame() {
+    if (this.frameOffset === 0) return
+
+    const pcm = this.frame.slice(0, this.frameOffset)
+    this.port.postMessage({ type: 'frame', pcm: pcm.buffer }, [pcm.buffer])
+    this.frameOffset = 0
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor)
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { blink, SINGLETON_USER } from './blink/client'
 import { VoiceButton } from './components/VoiceButton'
 import { ChatInterface } from './components/ChatInterface'
@@ -6,15 +6,38 @@ import { ConversationSidebar } from './components/ConversationSidebar'
 import { SettingsPanel } from './components/SettingsPanel'
 import { Toaster } from './components/ui/sonner'
 import { useAI } from './hooks/useAI'
+import { useGeminiLive, type LiveTurn } from './hooks/useGeminiLive'
+import { DEFAULT_VOICE_ACTIVITY } from './services/voiceActivity'
+import { loadWakeWordModel } from './services/wakeWord'
+import { loadLocalModelApiKey, saveLocalModelApiKey } from './services/openAICompatible'
+import { createDefaultToolRegistry } from './services/liveTools'
+import { DEFAULT_MODEL_CONFIG, resolveModelSelection } from './services/modelCatalog'
+import { aiProviders } from './services/providerRegistry'
+import { AIError, AI_ERROR_DESCRIPTIONS } from './services/aiErrors'
+import { addVariant, variantsOf, withActiveVariant } from './lib/messageVariants'
+import { activePath, branchPositions, latestLeaf, siblingsOf, withParents } from './lib/messageTree'
+import type { LiveConnectionState } from './services/aiProvider'
 import { toast } from 'sonner'
 import type { 
   VoiceState, 
   Conversation, 
   Message, 
+  ConversationModelConfig,
+  GroundingCitation,
+  MessageError,
+  SearchMode,
+  ToolInvocation,
   ZaivaSettings,
   UserProfile 
 } from './types/zaiva'
 
+const LIVE_CONNECTION_LABELS: Record<LiveConnectionState, string> = {
+  connected: 'connected',
+  connecting: 'connecting...',
+  reconnecting: 'reconnecting...',
+  disconnected: 'offline'
+}
+
 function App() {
   // Authentication state
   const [user, setUser] = useState<any>(null)
@@ -27,27 +50,121 @@ function App() {
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
   const [messages, setMessages] = useState<Message[]>([])
+  // Last message of the branch shown in each conversation. The ref serves saves that run back to back,
+  // the state drives which branch is rendered.
+  const activeLeafIdsRef = useRef(new Map<string, string>())
+  const [activeLeafIds, setActiveLeafIds] = useState<Record<string, string>>({})
+  // Model choices edited while no conversation is open; the next new conversation starts with them
+  const [newConversationModelConfig, setNewConversationModelConfig] = useState<ConversationModelConfig>(DEFAULT_MODEL_CONFIG)
 
   // UI state
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const [isChatLoading, setIsChatLoading] = useState(false)
+  // Text of the answer currently streaming in, shown before it is saved; messageId is set when
+  // it is a new variant of that message rather than a new message
+  const [streamingReply, setStreamingReply] = useState<{ text: string; messageId?: string } | null>(null)
 
   // Settings state
   const [settings, setSettings] = useState<ZaivaSettings>({
     personalityConfig: 'You are ZAIVA, a sophisticated AI assistant created specifically for Lukas Rejchrt. You are intelligent, helpful, and have a warm personality. You remember our conversations and provide personalized assistance.',
+    conversationEngine: 'classic',
     voiceEnabled: true,
     autoTranscription: true,
-    webSearchEnabled: true
+    webSearchEnabled: true,
+    handsFreeEnabled: false,
+    bargeInEnabled: false,
+    voiceActivity: DEFAULT_VOICE_ACTIVITY,
+    wakeWordEnabled: false,
+    wakeWordSensitivity: 0.5,
+    localModel: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.2', apiKey: loadLocalModelApiKey() }
   })
 
+  // The wake word model lives in localStorage; re-read it whenever settings are saved
+  const wakeWord = useMemo(() => {
+    if (!settings.wakeWordEnabled) return undefined
+    const model = loadWakeWordModel()
+    return model ? { model, sensitivity: settings.wakeWordSensitivity } : undefined
+  }, [settings])
+
+  // Providers that depend on settings (e.g. the local model server) always see the latest ones
+  useEffect(() => {
+    aiProviders.applySettings(settings)
+  }, [settings])
+
   // AI integration
+  // Failures are reported inline on the message they belong to, see answerMessage
   const ai = useAI({
     systemInstruction: settings.personalityConfig,
+    webSearchEnabled: settings.webSearchEnabled
+  })
+
+  // Assistant message currently being spoken, for marking it truncated on barge-in
+  const speakingMessageIdRef = useRef<string | null>(null)
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null)
+  const pendingTruncationRef = useRef(false)
+
+  // Conversation that the in-flight live turn belongs to
+  const liveConversationIdRef = useRef<string | null>(null)
+  // Conversation whose server-side live session is open. Only explicit navigation changes it,
+  // so a conversation created mid-turn keeps the session that produced it.
+  const [liveSessionConversationId, setLiveSessionConversationId] = useState<string | null>(null)
+
+  // Functions the live model may call on this device
+  const liveTools = useMemo(() => createDefaultToolRegistry(), [])
+  // Live events arrive faster than rows are written; persist them one after another to keep their order
+  const liveSaveChainRef = useRef<Promise<void>>(Promise.resolve())
+  // Transcript rows of tool calls that haven't finished yet, keyed by call id
+  const pendingToolMessagesRef = useRef(new Map<string, { messageId: string; invocation: ToolInvocation }>())
+
+  // A conversation that was just created may not be in the list yet; it was created with the pending config
+  const modelConfigFor = (conversationId: string | null) =>
+    conversations.find(conversation => conversation.id === conversationId)?.modelConfig ?? newConversationModelConfig
+
+  const liveModelSelection = resolveModelSelection(modelConfigFor(liveSessionConversationId), 'live')
+
+  const live = useGeminiLive({
+    enabled: !!user && settings.conversationEngine === 'live',
+    systemInstruction: settings.personalityConfig,
+    webSearchEnabled: settings.webSearchEnabled,
+    modelSelection: liveModelSelection,
+    sessionId: liveSessionConversationId,
+    sessionResumptionHandle: conversations.find(c => c.id === liveSessionConversationId)?.lastResumptionHandle,
+    tools: liveTools,
+    onTurnComplete: (turn) => {
+      handleLiveTurnComplete(turn)
+    },
+    onToolCall: (invocation, userTranscript) => {
+      handleToolCall(invocation, userTranscript)
+    },
+    onToolResult: (invocation) => {
+      updateToolInvocation(invocation.id, invocation)
+    },
+    onToolCancelled: (id) => {
+      updateToolInvocation(id, { status: 'cancelled' })
+    },
+    onSessionResumptionUpdate: (handle) => {
+      handleResumptionHandle(handle)
+    },
     onError: (error) => {
-      toast.error(`AI Error: ${error.message}`)
+      toast.error(`Live Error: ${error.message}`)
     }
   })
 
+  const isLiveEngine = settings.conversationEngine === 'live'
+  const voiceState = isLiveEngine ? live.voiceState : ai.voiceState
+  const setVoiceState = isLiveEngine ? live.setVoiceState : ai.setVoiceState
+
+  // Share of the live answer heard so far; only meaningful once all of its audio has arrived
+  const playbackPosition = live.playbackPosition
+  const spokenProgress = isLiveEngine && voiceState === 'speaking' && speakingMessageId &&
+    playbackPosition?.isComplete && playbackPosition.receivedMs > 0
+    ? { messageId: speakingMessageId, fraction: Math.min(1, playbackPosition.playedMs / playbackPosition.receivedMs) }
+    : undefined
+
+  const visibleMessages = activeConversationId
+    ? activePath(messages.filter(message => message.conversationId === activeConversationId), activeLeafIds[activeConversationId])
+    : messages
+
   // Initialize authentication
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -80,7 +197,10 @@ function App() {
         where: { userId: SINGLETON_USER.id },
         orderBy: { updatedAt: 'desc' }
       })
-      setConversations(result)
+      setConversations(result.map(conversation => ({
+        ...conversation,
+        modelConfig: conversation.modelConfig ? JSON.parse(conversation.modelConfig) : undefined
+      })))
     } catch (error) {
       console.error('Failed to load conversations:', error)
       toast.error('Failed to load conversations')
@@ -94,15 +214,33 @@ function App() {
         orderBy: { timestamp: 'asc' }
       })
       
-      // Parse grounding citations from JSON strings
-      const parsedMessages = result.map(msg => ({
+      // Parse grounding citations from JSON strings; booleans come back as "0"/"1"
+      const parsedMessages: Message[] = result.map(msg => ({
         ...msg,
         groundingCitations: msg.groundingCitations 
           ? JSON.parse(msg.groundingCitations) 
-          : undefined
+          : undefined,
+        truncated: Number(msg.truncated) > 0,
+        incomplete: Number(msg.incomplete) > 0,
+        grounded: Number(msg.grounded) > 0,
+        toolInvocation: msg.toolInvocation ? JSON.parse(msg.toolInvocation) : undefined,
+        generationParams: msg.generationParams ? JSON.parse(msg.generationParams) : undefined,
+        error: msg.error ? JSON.parse(msg.error) : undefined,
+        searchMode: msg.searchMode || undefined,
+        variants: msg.variants ? JSON.parse(msg.variants) : undefined,
+        activeVariant: msg.activeVariant !== undefined && msg.activeVariant !== null ? Number(msg.activeVariant) : undefined
       }))
-      
-      setMessages(parsedMessages)
+      const tree = withParents(parsedMessages, conversationId)
+
+      // The saved leaf may be gone; the path then ends at the newest message
+      const [conversation] = await blink.db.conversations.list({ where: { id: conversationId }, limit: 1 })
+      const path = activePath(tree, conversation?.activeLeafId ?? undefined)
+      if (path.length > 0) {
+        const leafId = path[path.length - 1].id
+        activeLeafIdsRef.current.set(conversationId, leafId)
+        setActiveLeafIds(prev => ({ ...prev, [conversationId]: leafId }))
+      }
+      setMessages(tree)
     } catch (error) {
       console.error('Failed to load messages:', error)
       toast.error('Failed to load messages')
@@ -117,8 +255,13 @@ function App() {
       })
       
       if (profile.length > 0) {
+        // Saved settings go over the defaults, so fields added since they were saved keep their default
+        const saved: Partial<ZaivaSettings> = profile[0].settings ? JSON.parse(profile[0].settings) : {}
         setSettings(prev => ({
           ...prev,
+          ...saved,
+          voiceActivity: { ...prev.voiceActivity, ...saved.voiceActivity },
+          localModel: { ...prev.localModel, ...saved.localModel, apiKey: prev.localModel.apiKey },
           personalityConfig: profile[0].personalityConfig || prev.personalityConfig
         }))
       }
@@ -135,6 +278,7 @@ function App() {
         id: conversationId,
         userId: SINGLETON_USER.id,
         title: 'New Conversation',
+        modelConfig: JSON.stringify(newConversationModelConfig),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       })
@@ -150,6 +294,20 @@ function App() {
     }
   }
 
+  const selectConversation = (conversationId: string) => {
+    setActiveConversationId(conversationId)
+    setLiveSessionConversationId(conversationId)
+    liveConversationIdRef.current = conversationId
+  }
+
+  const startNewConversation = async () => {
+    const conversationId = await createNewConversation()
+    if (conversationId) {
+      setLiveSessionConversationId(conversationId)
+      liveConversationIdRef.current = conversationId
+    }
+  }
+
   const deleteConversation = async (conversationId: string) => {
     try {
       await blink.db.conversations.delete(conversationId)
@@ -157,6 +315,10 @@ function App() {
       if (activeConversationId === conversationId) {
         setActiveConversationId(null)
       }
+      if (liveSessionConversationId === conversationId) {
+        setLiveSessionConversationId(null)
+        liveConversationIdRef.current = null
+      }
       
       await loadConversations()
       toast.success('Conversation deleted')
@@ -166,62 +328,466 @@ function App() {
     }
   }
 
-  const sendMessage = async (content: string) => {
-    if (!activeConversationId) {
-      const newConversationId = await createNewConversation()
-      if (!newConversationId) {
-        toast.error('Failed to create conversation')
-        return
-      }
+  const trackActiveLeaf = (conversationId: string, messageId: string) => {
+    activeLeafIdsRef.current.set(conversationId, messageId)
+    setActiveLeafIds(prev => ({ ...prev, [conversationId]: messageId }))
+  }
+
+  // Remembered so reopening the conversation shows the same branch
+  const setActiveLeaf = async (conversationId: string, messageId: string) => {
+    trackActiveLeaf(conversationId, messageId)
+    try {
+      await blink.db.conversations.update(conversationId, { activeLeafId: messageId })
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === conversationId ? { ...conversation, activeLeafId: messageId } : conversation
+      ))
+    } catch (error) {
+      console.error('Failed to save active branch:', error)
+    }
+  }
+
+  // New messages continue the branch being shown unless extra.parentId says otherwise
+  const saveMessage = async (
+    conversationId: string,
+    role: Message['role'],
+    content: string,
+    citations?: GroundingCitation[],
+    extra: Partial<Message> = {}
+  ): Promise<Message> => {
+    const message: Message = {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      conversationId,
+      role,
+      content,
+      timestamp: new Date().toISOString(),
+      groundingCitations: citations,
+      parentId: activeLeafIdsRef.current.get(conversationId)
+        ?? conversations.find(conversation => conversation.id === conversationId)?.activeLeafId
+        ?? conversationId,
+      ...extra
+    }
+
+    await blink.db.messages.create({
+      ...message,
+      groundingCitations: citations ? JSON.stringify(citations) : undefined,
+      toolInvocation: message.toolInvocation ? JSON.stringify(message.toolInvocation) : undefined,
+      generationParams: message.generationParams ? JSON.stringify(message.generationParams) : undefined,
+      error: message.error ? JSON.stringify(message.error) : undefined,
+      variants: message.variants ? JSON.stringify(message.variants) : undefined
+    })
+    setMessages(prev => [...prev, message])
+    await setActiveLeaf(conversationId, message.id)
+    return message
+  }
+
+  // Starts tracking a new spoken answer for barge-in
+  const beginSpokenTurn = () => {
+    trackSpeakingMessage(null)
+    pendingTruncationRef.current = false
+  }
+
+  // The ref serves barge-in handlers, the state drives the spoken-text highlight
+  const trackSpeakingMessage = (messageId: string | null) => {
+    speakingMessageIdRef.current = messageId
+    setSpeakingMessageId(messageId)
+  }
+
+  // Saves the assistant answer that is (about to be) spoken, honouring an interruption
+  // that happened before it reached the database
+  const saveSpokenAnswer = async (
+    conversationId: string,
+    content: string,
+    citations?: GroundingCitation[],
+    extra: Partial<Message> = {}
+  ) => {
+    const truncated = pendingTruncationRef.current || !!extra.truncated
+    pendingTruncationRef.current = false
+    const message = await saveMessage(conversationId, 'assistant', content, citations, { ...extra, truncated })
+    trackSpeakingMessage(truncated ? null : message.id)
+    return message
+  }
+
+  const markTruncated = async (messageId: string) => {
+    try {
+      await blink.db.messages.update(messageId, { truncated: true })
+      setMessages(prev => prev.map(message =>
+        message.id === messageId ? { ...message, truncated: true } : message
+      ))
+    } catch (error) {
+      console.error('Failed to mark message as interrupted:', error)
     }
+  }
+
+  // The user talked over (or tapped) ZAIVA: stop playback and flag the answer as cut short
+  const handleInterrupt = () => {
+    if (isLiveEngine) {
+      live.stopAudioPlayback()
+    } else {
+      ai.stopAudioPlayback()
+    }
+
+    const messageId = speakingMessageIdRef.current
+    trackSpeakingMessage(null)
+    if (messageId) {
+      markTruncated(messageId)
+    } else {
+      pendingTruncationRef.current = true
+    }
+  }
+
+  // Stop button: cut speech short, or abandon the request that is still being worked on
+  const handleStop = () => {
+    if (voiceState === 'speaking' || (isLiveEngine && voiceState === 'processing')) {
+      // A live turn can't be withdrawn from the server; the rest of its answer is dropped and saved as interrupted
+      handleInterrupt()
+    } else if (!isLiveEngine) {
+      ai.cancel()
+    }
+  }
+
+  const touchConversation = async (conversationId: string) => {
+    await blink.db.conversations.update(conversationId, {
+      updatedAt: new Date().toISOString()
+    })
+    await loadConversations()
+  }
+
+  const ensureConversation = async (): Promise<string | null> => {
+    if (activeConversationId) return activeConversationId
+
+    const conversationId = await createNewConversation()
+    if (!conversationId) {
+      toast.error('Failed to create conversation')
+    }
+    return conversationId
+  }
+
+  // The branch up to and including upToMessageId, by default the one on screen.
+  // A turn being answered gets the branch up to its parent as history.
+  const conversationHistory = (conversationId: string, upToMessageId?: string) => {
+    const tree = messages.filter(message => message.conversationId === conversationId)
+    if (upToMessageId && !tree.some(message => message.id === upToMessageId)) return []
+    return activePath(tree, upToMessageId ?? activeLeafIdsRef.current.get(conversationId))
+  }
+
+  // Records (or clears) the failure shown inline under a user message
+  const setMessageError = async (messageId: string, error?: MessageError) => {
+    try {
+      await blink.db.messages.update(messageId, { error: error ? JSON.stringify(error) : null })
+      setMessages(prev => prev.map(message =>
+        message.id === messageId ? { ...message, error } : message
+      ))
+    } catch (dbError) {
+      console.error('Failed to save message error:', dbError)
+    }
+  }
+
+  const toMessageError = (error: AIError): MessageError => ({ kind: error.kind, message: error.message })
+
+  // undefined leaves the decision to the web search setting
+  const searchOverride = (searchMode: SearchMode = 'auto') =>
+    searchMode === 'auto' ? undefined : searchMode === 'always'
+
+  const sendMessage = async (content: string, searchMode: SearchMode = 'auto') => {
+    const conversationId = await ensureConversation()
+    if (!conversationId) return
 
     setIsChatLoading(true)
-    
     try {
-      // Add user message
-      const userMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      const userMessage: Message = {
-        id: userMessageId,
-        conversationId: activeConversationId,
-        role: 'user',
-        content,
-        timestamp: new Date().toISOString()
+      const userMessage = await saveMessage(conversationId, 'user', content, undefined, { searchMode })
+      await answerMessage(conversationId, userMessage)
+    } catch (error) {
+      console.error('Failed to send message:', error)
+      toast.error('Failed to send message')
+    } finally {
+      setIsChatLoading(false)
+    }
+  }
+
+  // Retry button under a failed message: ask again with the same text
+  const retryMessage = async (message: Message) => {
+    setIsChatLoading(true)
+    try {
+      await setMessageError(message.id, undefined)
+      await answerMessage(message.conversationId, message)
+    } catch (error) {
+      console.error('Failed to retry message:', error)
+      toast.error('Failed to retry message')
+    } finally {
+      setIsChatLoading(false)
+    }
+  }
+
+  // Uses the search choice stored on the user message, so retries and edits ask the same way again
+  const answerMessage = async (conversationId: string, userMessage: Message) => {
+    if (isLiveEngine) {
+      // The answer arrives asynchronously and is saved in handleLiveTurnComplete
+      liveConversationIdRef.current = conversationId
+      beginSpokenTurn()
+      await live.sendTextMessage(userMessage.content)
+      return
+    }
+
+    try {
+      // Stream the AI response, with the conversation so far as context; it is saved once complete
+      const modelSelection = resolveModelSelection(modelConfigFor(conversationId), 'classic')
+      const aiResponse = await ai.sendTextMessage(userMessage.content, {
+        history: conversationHistory(conversationId, userMessage.parentId),
+        onDelta: text => setStreamingReply({ text }),
+        search: searchOverride(userMessage.searchMode),
+        modelSelection
+      })
+      if (!aiResponse) return // stopped before anything arrived
+
+      await saveMessage(conversationId, 'assistant', aiResponse.text, aiResponse.citations, {
+        // A retried turn may no longer be at the end of the branch
+        parentId: userMessage.id,
+        incomplete: aiResponse.incomplete,
+        grounded: aiResponse.grounded,
+        model: modelSelection.model,
+        generationParams: modelSelection.params
+      })
+      // The saved message takes over from the streaming bubble
+      setStreamingReply(null)
+      if (aiResponse.error) {
+        await setMessageError(userMessage.id, toMessageError(aiResponse.error))
       }
+      await touchConversation(conversationId)
+    } catch (error) {
+      // AI failures are shown under the message with a retry button; anything else is for the caller
+      if (!(error instanceof AIError)) throw error
+      await setMessageError(userMessage.id, toMessageError(error))
+    } finally {
+      setStreamingReply(null)
+    }
+  }
 
-      await blink.db.messages.create(userMessage)
-      setMessages(prev => [...prev, userMessage])
+  // Writes the active variant's fields together with the full variant list
+  const saveVariants = async (message: Message) => {
+    await blink.db.messages.update(message.id, {
+      content: message.content,
+      groundingCitations: message.groundingCitations ? JSON.stringify(message.groundingCitations) : null,
+      grounded: !!message.grounded,
+      incomplete: !!message.incomplete,
+      truncated: !!message.truncated,
+      model: message.model ?? null,
+      generationParams: message.generationParams ? JSON.stringify(message.generationParams) : null,
+      variants: JSON.stringify(message.variants),
+      activeVariant: message.activeVariant
+    })
+    setMessages(prev => prev.map(existing => existing.id === message.id ? message : existing))
+  }
 
-      // Get AI response
-      const aiResponse = await ai.sendTextMessage(content)
-      
-      const assistantMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      const assistantMessage: Message = {
-        id: assistantMessageId,
-        conversationId: activeConversationId,
-        role: 'assistant',
+  // Reruns the user turn before an answer and keeps the result as another variant of it
+  const regenerateMessage = async (message: Message, modelId?: string) => {
+    const userMessage = conversationHistory(message.conversationId, message.parentId)
+      .reverse()
+      .find(existing => existing.role === 'user')
+    if (!userMessage) return
+
+    const config = modelConfigFor(message.conversationId)
+    const modelSelection = resolveModelSelection(
+      modelId ? { ...config, models: { ...config.models, classic: modelId } } : config,
+      'classic'
+    )
+
+    setIsChatLoading(true)
+    // Streams into the message itself instead of a new bubble at the bottom
+    setStreamingReply({ text: '', messageId: message.id })
+    try {
+      const aiResponse = await ai.sendTextMessage(userMessage.content, {
+        history: conversationHistory(message.conversationId, userMessage.parentId),
+        onDelta: text => setStreamingReply({ text, messageId: message.id }),
+        search: searchOverride(userMessage.searchMode),
+        modelSelection
+      })
+      if (!aiResponse) return
+
+      await saveVariants(addVariant(message, {
         content: aiResponse.text,
-        timestamp: new Date().toISOString(),
-        groundingCitations: aiResponse.citations
+        groundingCitations: aiResponse.citations,
+        grounded: aiResponse.grounded,
+        incomplete: aiResponse.incomplete,
+        model: modelSelection.model,
+        generationParams: modelSelection.params,
+        createdAt: new Date().toISOString()
+      }))
+      setStreamingReply(null)
+      if (aiResponse.error) {
+        toast.error(AI_ERROR_DESCRIPTIONS[aiResponse.error.kind].title)
       }
+    } catch (error) {
+      console.error('Failed to regenerate answer:', error)
+      const description = error instanceof AIError ? AI_ERROR_DESCRIPTIONS[error.kind] : undefined
+      toast.error(description?.title ?? 'Failed to regenerate answer', { description: description?.action })
+    } finally {
+      setStreamingReply(null)
+      setIsChatLoading(false)
+    }
+  }
+
+  const selectVariant = async (message: Message, index: number) => {
+    try {
+      await saveVariants(withActiveVariant(message, variantsOf(message), index))
+    } catch (error) {
+      console.error('Failed to switch answer variant:', error)
+      toast.error('Failed to switch answer')
+    }
+  }
 
-      await blink.db.messages.create({
-        ...assistantMessage,
-        groundingCitations: aiResponse.citations ? JSON.stringify(aiResponse.citations) : undefined
+  // An edited question becomes a sibling of the original, so what followed the original stays a branch
+  const editMessage = async (message: Message, content: string) => {
+    setIsChatLoading(true)
+    try {
+      const userMessage = await saveMessage(message.conversationId, 'user', content, undefined, {
+        parentId: message.parentId,
+        searchMode: message.searchMode
       })
-      setMessages(prev => [...prev, assistantMessage])
+      await answerMessage(message.conversationId, userMessage)
+    } catch (error) {
+      console.error('Failed to edit message:', error)
+      toast.error('Failed to edit message')
+    } finally {
+      setIsChatLoading(false)
+    }
+  }
+
+  // Shows the sibling at index, continuing down its newest branch
+  const selectBranch = async (message: Message, index: number) => {
+    const sibling = siblingsOf(messages, message)[index]
+    if (!sibling) return
+    await setActiveLeaf(message.conversationId, latestLeaf(messages, sibling.id))
+  }
+
+  const handleVoiceMessage = async (audioBlob: Blob) => {
+    const conversationId = await ensureConversation()
+    if (!conversationId) return
+    
+    beginSpokenTurn()
+    try {
+      const modelSelection = resolveModelSelection(modelConfigFor(conversationId), 'classic')
+      const result = await ai.processAudioMessage(audioBlob, conversationHistory(conversationId), modelSelection)
+      if (!result) return
       
-      // Update conversation timestamp
-      await blink.db.conversations.update(activeConversationId, {
-        updatedAt: new Date().toISOString()
+      // User's transcribed speech followed by the AI response, or by the error that prevented one
+      const userMessage = await saveMessage(conversationId, 'user', result.text)
+      if (result.error) {
+        await setMessageError(userMessage.id, toMessageError(result.error))
+        return
+      }
+      await saveSpokenAnswer(conversationId, result.aiResponse, result.citations, {
+        grounded: result.grounded,
+        model: modelSelection.model,
+        generationParams: modelSelection.params
       })
-      
-      await loadConversations()
+      await touchConversation(conversationId)
+    } catch (error) {
+      console.error('Voice processing error:', error)
+      // Nothing was transcribed, so there is no message to attach the error to
+      const description = error instanceof AIError ? AI_ERROR_DESCRIPTIONS[error.kind] : undefined
+      toast.error(description?.title ?? 'Failed to process voice message', { description: description?.action })
+    }
+  }
+
+  const handleLiveStreamEnd = async () => {
+    const conversationId = await ensureConversation()
+    if (!conversationId) return
+
+    liveConversationIdRef.current = conversationId
+    beginSpokenTurn()
+    live.endAudioStream()
+  }
+
+  const enqueueLiveSave = (task: () => Promise<void>) => {
+    liveSaveChainRef.current = liveSaveChainRef.current.then(task)
+  }
 
+  // Spoken turns arrive as transcripts: save what the user said, then ZAIVA's answer
+  const handleLiveTurnComplete = ({ userTranscript, text, citations, grounded, interrupted }: LiveTurn) => {
+    const conversationId = liveConversationIdRef.current
+    if (!conversationId) return
+    // The session was set up with this selection, whatever the conversation has been changed to since
+    const { model, params } = liveModelSelection
+
+    enqueueLiveSave(async () => {
+      try {
+        if (userTranscript) {
+          await saveMessage(conversationId, 'user', userTranscript)
+        }
+        if (text) {
+          await saveSpokenAnswer(conversationId, text, citations.length > 0 ? citations : undefined, {
+            truncated: interrupted,
+            grounded,
+            model,
+            generationParams: params
+          })
+        }
+        await touchConversation(conversationId)
+      } catch (error) {
+        console.error('Failed to save live response:', error)
+        toast.error('Failed to save response')
+      }
+    })
+  }
+
+  // Each tool call gets its own transcript row, updated in place once the result is in
+  const handleToolCall = (invocation: ToolInvocation, userTranscript: string) => {
+    const conversationId = liveConversationIdRef.current
+    if (!conversationId) return
+
+    enqueueLiveSave(async () => {
+      try {
+        if (userTranscript) {
+          await saveMessage(conversationId, 'user', userTranscript)
+        }
+        const message = await saveMessage(conversationId, 'tool', invocation.name, undefined, {
+          toolInvocation: invocation
+        })
+        pendingToolMessagesRef.current.set(invocation.id, { messageId: message.id, invocation })
+      } catch (error) {
+        console.error('Failed to save tool call:', error)
+      }
+    })
+  }
+
+  // Queued behind the row's creation, so the call is always known by the time this runs
+  const updateToolInvocation = (id: string, changes: Partial<ToolInvocation>) => {
+    enqueueLiveSave(async () => {
+      const pending = pendingToolMessagesRef.current.get(id)
+      if (!pending) return
+      pendingToolMessagesRef.current.delete(id)
+
+      const invocation = { ...pending.invocation, ...changes }
+      try {
+        await blink.db.messages.update(pending.messageId, {
+          toolInvocation: JSON.stringify(invocation)
+        })
+        setMessages(prev => prev.map(message =>
+          message.id === pending.messageId ? { ...message, toolInvocation: invocation } : message
+        ))
+      } catch (error) {
+        console.error('Failed to save tool result:', error)
+      }
+    })
+  }
+
+  // Persist the latest live resumption handle so reopening the conversation continues the session;
+  // null clears a handle the server would no longer accept
+  const handleResumptionHandle = async (handle: string | null) => {
+    const conversationId = liveConversationIdRef.current ?? liveSessionConversationId
+    if (!conversationId) return
+
+    try {
+      await blink.db.conversations.update(conversationId, {
+        lastResumptionHandle: handle
+      })
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === conversationId
+          ? { ...conversation, lastResumptionHandle: handle ?? undefined }
+          : conversation
+      ))
     } catch (error) {
-      console.error('Failed to send message:', error)
-      toast.error('Failed to send message')
-    } finally {
-      setIsChatLoading(false)
+      console.error('Failed to save resumption handle:', error)
     }
   }
 
@@ -230,11 +796,26 @@ function App() {
     // File processing will be implemented with backend integration
   }
 
-  const handleSettingsChange = async (newSettings: ZaivaSettings) => {
+  const handleSettingsChange = async (newSettings: ZaivaSettings, modelConfig: ConversationModelConfig) => {
     try {
+      const { personalityConfig, ...otherSettings } = newSettings
+      const { apiKey, ...localModel } = otherSettings.localModel
       await blink.db.userProfile.update(SINGLETON_USER.id, {
-        personalityConfig: newSettings.personalityConfig
+        personalityConfig,
+        settings: JSON.stringify({ ...otherSettings, localModel })
       })
+      saveLocalModelApiKey(apiKey)
+
+      if (activeConversationId) {
+        await blink.db.conversations.update(activeConversationId, {
+          modelConfig: JSON.stringify(modelConfig)
+        })
+        setConversations(prev => prev.map(conversation =>
+          conversation.id === activeConversationId ? { ...conversation, modelConfig } : conversation
+        ))
+      } else {
+        setNewConversationModelConfig(modelConfig)
+      }
       
       setSettings(newSettings)
       setIsSettingsOpen(false)
@@ -280,8 +861,8 @@ function App() {
       <ConversationSidebar
         conversations={conversations}
         activeConversationId={activeConversationId || undefined}
-        onSelectConversation={setActiveConversationId}
-        onNewConversation={createNewConversation}
+        onSelectConversation={selectConversation}
+        onNewConversation={startNewConversation}
         onDeleteConversation={deleteConversation}
         onOpenSettings={() => setIsSettingsOpen(true)}
       />
@@ -300,68 +881,26 @@ function App() {
               </h2>
               <p className="text-sm text-muted-foreground">
                 Voice-first AI assistant for Lukas Rejchrt
+                {isLiveEngine && (
+                  <span className="ml-2 text-xs">
+                    · Gemini Live {LIVE_CONNECTION_LABELS[live.connectionState]}
+                  </span>
+                )}
               </p>
             </div>
             
             {settings.voiceEnabled && (
               <VoiceButton
-                state={ai.voiceState}
-                onStateChange={ai.setVoiceState}
-                disabled={false}
-                onAudioData={async (audioBlob) => {
-                  let conversationId = activeConversationId
-                  if (!conversationId) {
-                    conversationId = await createNewConversation()
-                    if (!conversationId) {
-                      toast.error('Failed to create conversation')
-                      return
-                    }
-                  }
-                  
-                  try {
-                    const result = await ai.processAudioMessage(audioBlob)
-                    
-                    // Add user message (transcribed text)
-                    const userMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-                    const userMessage: Message = {
-                      id: userMessageId,
-                      conversationId: conversationId,
-                      role: 'user',
-                      content: result.text,
-                      timestamp: new Date().toISOString()
-                    }
-
-                    await blink.db.messages.create(userMessage)
-                    setMessages(prev => [...prev, userMessage])
-
-                    // Add AI response
-                    const assistantMessageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-                    const assistantMessage: Message = {
-                      id: assistantMessageId,
-                      conversationId: conversationId,
-                      role: 'assistant',
-                      content: result.aiResponse, // AI's response text
-                      timestamp: new Date().toISOString(),
-                      groundingCitations: result.citations
-                    }
-
-                    await blink.db.messages.create({
-                      ...assistantMessage,
-                      groundingCitations: result.citations ? JSON.stringify(result.citations) : undefined
-                    })
-                    setMessages(prev => [...prev, assistantMessage])
-                    
-                    // Update conversation timestamp
-                    await blink.db.conversations.update(conversationId, {
-                      updatedAt: new Date().toISOString()
-                    })
-                    
-                    await loadConversations()
-                  } catch (error) {
-                    console.error('Voice processing error:', error)
-                    toast.error('Failed to process voice message')
-                  }
-                }}
+                state={voiceState}
+                onStateChange={setVoiceState}
+                disabled={isLiveEngine && !live.isConnected}
+                voiceActivity={settings.handsFreeEnabled ? settings.voiceActivity : undefined}
+                wakeWord={wakeWord}
+                bargeIn={settings.bargeInEnabled}
+                onInterrupt={handleInterrupt}
+                onAudioData={isLiveEngine ? undefined : handleVoiceMessage}
+                onAudioFrame={isLiveEngine ? live.sendAudioChunk : undefined}
+                onAudioStreamEnd={isLiveEngine ? handleLiveStreamEnd : undefined}
               />
             )}
           </div>
@@ -370,12 +909,26 @@ function App() {
         {/* Chat Interface */}
         <div className="flex-1">
           <ChatInterface
-            messages={messages}
+            messages={visibleMessages}
+            branches={branchPositions(messages, visibleMessages)}
             onSendMessage={sendMessage}
+            onRetryMessage={retryMessage}
+            // Live answers come from the session, which can't rerun an earlier turn
+            onRegenerateMessage={isLiveEngine ? undefined : regenerateMessage}
+            onSelectVariant={selectVariant}
+            onEditMessage={isLiveEngine ? undefined : editMessage}
+            onSelectBranch={selectBranch}
             onFileUpload={handleFileUpload}
-            isLoading={isChatLoading || ai.isProcessing}
-            voiceState={ai.voiceState}
+            isLoading={isChatLoading || ai.isProcessing || (isLiveEngine && live.voiceState === 'processing')}
+            voiceState={voiceState}
             audioLevel={audioLevel}
+            spokenProgress={spokenProgress}
+            streamingReply={streamingReply}
+            onStop={handleStop}
+            webSearchEnabled={settings.webSearchEnabled}
+            // Live sessions fix their tools at setup, so search can only change per session
+            canOverrideSearch={!isLiveEngine}
+            canStop={voiceState === 'speaking' || (isLiveEngine ? voiceState === 'processing' : ai.isProcessing || isChatLoading)}
           />
         </div>
       </div>
@@ -384,6 +937,8 @@ function App() {
       {isSettingsOpen && (
         <SettingsPanel
           settings={settings}
+          modelConfig={modelConfigFor(activeConversationId)}
+          hasActiveConversation={!!activeConversationId}
           onSettingsChange={handleSettingsChange}
           onClose={() => setIsSettingsOpen(false)}
         />
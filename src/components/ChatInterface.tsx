@@ -1,34 +1,93 @@
 import { useState, useRef, useEffect } from 'react'
-import { Send, Paperclip, ExternalLink, FileText, Upload } from 'lucide-react'
+import { Send, Paperclip, ExternalLink, FileText, Upload, Wrench, ChevronRight, Square, Globe, SearchX, AlertCircle, RotateCcw, RefreshCw, ChevronLeft, ChevronDown, Pencil } from 'lucide-react'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
 import { ScrollArea } from './ui/scroll-area'
 import { Card } from './ui/card'
 import { Badge } from './ui/badge'
 import { Progress } from './ui/progress'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card'
+import { Alert, AlertDescription, AlertTitle } from './ui/alert'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from './ui/dropdown-menu'
 import { AudioWaveform } from './AudioWaveform'
 import { ContextSuggestions } from './ContextSuggestions'
 import { cn } from '../lib/utils'
-import type { Message, GroundingCitation } from '../types/zaiva'
+import { sourceDomain, uniqueSources, type CitationSource } from '../services/citations'
+import { findModel, modelsForEngine } from '../services/modelCatalog'
+import { AI_ERROR_DESCRIPTIONS } from '../services/aiErrors'
+import { activeVariantIndex, variantsOf } from '../lib/messageVariants'
+import type { Message, MessageError, ToolInvocation, SearchMode } from '../types/zaiva'
+
+const TOOL_STATUS_LABELS: Record<ToolInvocation['status'], string> = {
+  running: 'running...',
+  completed: 'done',
+  failed: 'failed',
+  cancelled: 'cancelled'
+}
+
+const NEXT_SEARCH_MODE: Record<SearchMode, SearchMode> = {
+  auto: 'always',
+  always: 'never',
+  never: 'auto'
+}
 
 interface ChatInterfaceProps {
   messages: Message[]
-  onSendMessage: (content: string) => void
+  onSendMessage: (content: string, searchMode: SearchMode) => void
+  // Asks again for a user message whose answer failed
+  onRetryMessage?: (message: Message) => void
+  // Asks for another answer to the same question, optionally from a different model; left out when
+  // the current engine can't do that
+  onRegenerateMessage?: (message: Message, modelId?: string) => void
+  onSelectVariant?: (message: Message, index: number) => void
+  // Sends a rephrased version of a user message as a new branch; left out when the engine can't
+  onEditMessage?: (message: Message, content: string) => void
+  // Where each shown message sits among its alternative branches, for those that have any
+  branches?: Record<string, { index: number; count: number }>
+  onSelectBranch?: (message: Message, index: number) => void
   onFileUpload: (file: File) => void
   isLoading?: boolean
   voiceState?: 'idle' | 'listening' | 'processing' | 'speaking'
   audioLevel?: number
+  // The answer being read aloud and how much of it has been spoken (0-1)
+  spokenProgress?: { messageId: string; fraction: number }
+  // Answer text received so far while it is still streaming; with messageId it is a new variant of that message
+  streamingReply?: { text: string; messageId?: string } | null
+  onStop?: () => void
+  // Something can be stopped right now: an answer being generated or spoken
+  canStop?: boolean
+  // What 'auto' search means for the next message, and whether it can be overridden at all
+  webSearchEnabled?: boolean
+  canOverrideSearch?: boolean
 }
 
 export function ChatInterface({ 
   messages, 
   onSendMessage, 
+  onRetryMessage,
+  onRegenerateMessage,
+  onSelectVariant,
+  onEditMessage,
+  branches = {},
+  onSelectBranch,
   onFileUpload, 
   isLoading = false,
   voiceState = 'idle',
-  audioLevel = 0
+  audioLevel = 0,
+  spokenProgress,
+  streamingReply,
+  onStop,
+  canStop = false,
+  webSearchEnabled = true,
+  canOverrideSearch = true
 }: ChatInterfaceProps) {
   const [inputValue, setInputValue] = useState('')
+  // Applies to the next message only
+  const [searchMode, setSearchMode] = useState<SearchMode>('auto')
+  // User message being rephrased in place
+  const [editing, setEditing] = useState<{ messageId: string; content: string } | null>(null)
   const [uploadProgress, setUploadProgress] = useState(0)
   const [isUploading, setIsUploading] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -39,13 +98,14 @@ export function ChatInterface({
     if (scrollAreaRef.current) {
       scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight
     }
-  }, [messages])
+  }, [messages, streamingReply])
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (inputValue.trim() && !isLoading) {
-      onSendMessage(inputValue.trim())
+      onSendMessage(inputValue.trim(), canOverrideSearch ? searchMode : 'auto')
       setInputValue('')
+      setSearchMode('auto')
     }
   }
 
@@ -85,26 +145,295 @@ export function ChatInterface({
     }
   }
 
-  const renderCitations = (citations: GroundingCitation[]) => {
-    if (!citations || citations.length === 0) return null
+  const renderCitations = (sources: CitationSource[]) => {
+    if (sources.length === 0) return null
 
     return (
       <div className="mt-2 flex flex-wrap gap-1">
-        {citations.map((citation, index) => (
+        {sources.map((source, index) => (
           <Badge
-            key={index}
+            key={source.uri}
             variant="outline"
             className="text-xs cursor-pointer hover:bg-accent/20"
-            onClick={() => window.open(citation.uri, '_blank')}
+            onClick={() => window.open(source.uri, '_blank')}
           >
             <ExternalLink className="h-3 w-3 mr-1" />
-            {citation.title || `Source ${index + 1}`}
+            {index + 1}. {source.title || `Source ${index + 1}`}
           </Badge>
         ))}
       </div>
     )
   }
 
+  const renderMessageError = (message: Message, error: MessageError) => {
+    const description = AI_ERROR_DESCRIPTIONS[error.kind]
+
+    return (
+      <Alert variant="destructive" className="max-w-[80%] py-2" title={error.message}>
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle className="text-sm">{description.title}</AlertTitle>
+        <AlertDescription className="flex items-center justify-between gap-3 text-xs">
+          <span>{description.action}</span>
+          {onRetryMessage && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 shrink-0"
+              onClick={() => onRetryMessage(message)}
+              disabled={isLoading}
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Retry
+            </Button>
+          )}
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  // "< 2/3 >" for stepping through the answers of a turn or the branches at a question
+  const renderPager = (index: number, count: number, onSelect: (index: number) => void, noun: string) => (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        onClick={() => onSelect(index - 1)}
+        disabled={index === 0 || isLoading}
+        title={`Previous ${noun}`}
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span className="tabular-nums">{index + 1}/{count}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        onClick={() => onSelect(index + 1)}
+        disabled={index === count - 1 || isLoading}
+        title={`Next ${noun}`}
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </>
+  )
+
+  // Branch navigation and editing under a question
+  const renderQuestionActions = (message: Message) => {
+    const branch = branches[message.id]
+    if ((!branch || !onSelectBranch) && !onEditMessage) return null
+
+    return (
+      <div className="flex items-center gap-0.5 text-xs text-muted-foreground">
+        {branch && onSelectBranch && renderPager(branch.index, branch.count, index => onSelectBranch(message, index), 'version')}
+        {onEditMessage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setEditing({ messageId: message.id, content: message.content })}
+            disabled={isLoading || !!editing}
+            title="Edit and resend"
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  const submitEdit = (message: Message) => {
+    const content = editing?.content.trim()
+    setEditing(null)
+    if (content && content !== message.content) {
+      onEditMessage?.(message, content)
+    }
+  }
+
+  const renderEditor = (message: Message, content: string) => (
+    <div className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setEditing({ messageId: message.id, content: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault()
+            submitEdit(message)
+          } else if (e.key === 'Escape') {
+            setEditing(null)
+          }
+        }}
+        className="min-w-[16rem] bg-background text-foreground"
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" size="sm" className="h-7" onClick={() => setEditing(null)}>
+          Cancel
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-foreground" onClick={() => submitEdit(message)} disabled={!content.trim()}>
+          Send
+        </Button>
+      </div>
+    </div>
+  )
+
+  // Variant navigation and regeneration under an answer
+  const renderAnswerActions = (message: Message) => {
+    const variants = variantsOf(message)
+    const active = activeVariantIndex(message)
+    const isRegenerating = streamingReply?.messageId === message.id
+
+    if (variants.length < 2 && !onRegenerateMessage) return null
+
+    return (
+      <div className="flex items-center gap-0.5 text-xs text-muted-foreground">
+        {variants.length > 1 && onSelectVariant && renderPager(active, variants.length, index => onSelectVariant(message, index), 'answer')}
+        {onRegenerateMessage && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => onRegenerateMessage(message)}
+              disabled={isLoading}
+              title="Regenerate answer"
+            >
+              <RefreshCw className={cn("h-3 w-3", isRegenerating && "animate-spin")} />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-6 w-4 p-0" disabled={isLoading} title="Regenerate with another model">
+                  <ChevronDown className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel className="text-xs">Regenerate with</DropdownMenuLabel>
+                {modelsForEngine('classic').map(model => (
+                  <DropdownMenuItem key={model.id} onClick={() => onRegenerateMessage(message, model.id)}>
+                    <span className="text-sm">{model.label}</span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
+      </div>
+    )
+  }
+
+  const renderCitationMarker = (source: CitationSource, number: number, key: string) => (
+    <HoverCard key={key} openDelay={150}>
+      <HoverCardTrigger asChild>
+        <a
+          href={source.uri}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="ml-0.5 align-super text-[0.65rem] font-medium text-primary hover:underline"
+        >
+          [{number}]
+        </a>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-72 space-y-1" side="top">
+        <p className="text-sm font-medium leading-snug">{source.title}</p>
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <ExternalLink className="h-3 w-3" />
+          {sourceDomain(source)}
+        </p>
+      </HoverCardContent>
+    </HoverCard>
+  )
+
+  // Tool calls are shown as a compact, expandable line rather than a chat bubble
+  const renderToolInvocation = (message: Message) => {
+    const invocation = message.toolInvocation
+    if (!invocation) return null
+
+    return (
+      <div key={message.id} className="flex justify-start">
+        <Collapsible className="max-w-[80%] rounded-md border border-dashed px-3 py-2 text-xs text-muted-foreground">
+          <CollapsibleTrigger className="group flex items-center gap-2">
+            <ChevronRight className="h-3 w-3 transition-transform group-data-[state=open]:rotate-90" />
+            <Wrench className="h-3 w-3" />
+            <span>
+              ZAIVA used <span className="font-mono">{invocation.name}</span>
+            </span>
+            <span className={cn(invocation.status === 'failed' && 'text-destructive')}>
+              {TOOL_STATUS_LABELS[invocation.status]}
+            </span>
+            <span className="opacity-70">{formatTimestamp(message.timestamp)}</span>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-2 space-y-1">
+            <pre className="whitespace-pre-wrap break-all font-mono">
+              {JSON.stringify(invocation.args, null, 2)}
+            </pre>
+            {invocation.result && (
+              <pre className="whitespace-pre-wrap break-all font-mono">
+                {JSON.stringify(invocation.result, null, 2)}
+              </pre>
+            )}
+            {invocation.error && <p className="text-destructive">{invocation.error}</p>}
+          </CollapsibleContent>
+        </Collapsible>
+      </div>
+    )
+  }
+
+  // Answer text with a numbered marker after each cited span. While the answer is read aloud, the part not
+  // yet spoken is dimmed, rounding up to the end of the current word.
+  const renderMessageContent = (message: Message, sources: CitationSource[]) => {
+    const content = message.content
+
+    const markers = new Map<number, number[]>()
+    message.groundingCitations?.forEach(citation => {
+      if (citation.endIndex === undefined) return
+      const position = Math.min(citation.endIndex, content.length)
+      const number = sources.findIndex(source => source.uri === citation.uri) + 1
+      const numbers = markers.get(position) ?? []
+      if (!numbers.includes(number)) numbers.push(number)
+      markers.set(position, numbers)
+    })
+
+    let spokenEnd = content.length
+    if (spokenProgress?.messageId === message.id) {
+      const boundary = Math.round(content.length * spokenProgress.fraction)
+      const wordEnd = content.slice(boundary).search(/\s/)
+      spokenEnd = wordEnd === -1 ? content.length : boundary + wordEnd
+    }
+
+    if (markers.size === 0 && spokenEnd === content.length) return content
+
+    const breakpoints = Array.from(new Set([...markers.keys(), spokenEnd, content.length])).sort((a, b) => a - b)
+    const nodes: React.ReactNode[] = []
+    let cursor = 0
+
+    breakpoints.forEach(breakpoint => {
+      if (breakpoint > cursor) {
+        nodes.push(
+          <span key={`text-${cursor}`} className={cn(cursor >= spokenEnd && 'opacity-50')}>
+            {content.slice(cursor, breakpoint)}
+          </span>
+        )
+        cursor = breakpoint
+      }
+      markers.get(breakpoint)
+        ?.sort((a, b) => a - b)
+        .forEach(number => nodes.push(renderCitationMarker(sources[number - 1], number, `cite-${breakpoint}-${number}`)))
+    })
+
+    return nodes
+  }
+
+  const searchModeTitle = () => {
+    switch (searchMode) {
+      case 'always': return 'Web search: on for this message (click for off)'
+      case 'never': return 'Web search: off for this message (click for automatic)'
+      default: return `Web search: ${webSearchEnabled ? 'on' : 'off'} per settings (click to force on)`
+    }
+  }
+
+  const formatGenerationParams = (params: Message['generationParams']) =>
+    Object.entries(params ?? {}).map(([name, value]) => `${name}: ${value}`).join(', ') || undefined
+
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString([], { 
       hour: '2-digit', 
@@ -138,12 +467,12 @@ export function ChatInterface({
               )}
             </div>
           ) : (
-            messages.map((message) => (
+            messages.map((message) => message.role === 'tool' ? renderToolInvocation(message) : (
               <div
                 key={message.id}
                 className={cn(
-                  "flex",
-                  message.role === 'user' ? 'justify-end' : 'justify-start'
+                  "flex flex-col gap-1",
+                  message.role === 'user' ? 'items-end' : 'items-start'
                 )}
               >
                 <Card
@@ -162,20 +491,71 @@ export function ChatInterface({
                       <span className="text-xs opacity-70">
                         {formatTimestamp(message.timestamp)}
                       </span>
+                      {message.model && (
+                        <span className="text-xs opacity-70" title={formatGenerationParams(message.generationParams)}>
+                          {findModel(message.model)?.label ?? message.model}
+                        </span>
+                      )}
+                      {message.truncated && (
+                        <span className="text-xs italic opacity-70" title="You interrupted ZAIVA while this answer was being spoken">
+                          Interrupted
+                        </span>
+                      )}
+                      {message.grounded && (
+                        <span className="flex items-center gap-0.5 text-xs opacity-70" title="This answer is grounded in web search results">
+                          <Globe className="h-3 w-3" />
+                          Web
+                        </span>
+                      )}
+                      {message.incomplete && (
+                        <span className="text-xs italic opacity-70" title="The answer stopped arriving part way through">
+                          Incomplete
+                        </span>
+                      )}
                     </div>
                     
-                    <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                      {message.content}
-                    </p>
-                    
-                    {message.groundingCitations && renderCitations(message.groundingCitations)}
+                    {editing?.messageId === message.id ? (
+                      renderEditor(message, editing.content)
+                    ) : streamingReply?.messageId === message.id ? (
+                      <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                        {streamingReply.text}
+                        <span className="ml-0.5 inline-block h-4 w-1.5 align-text-bottom bg-primary animate-pulse" />
+                      </p>
+                    ) : (
+                      <>
+                        <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                          {renderMessageContent(message, uniqueSources(message.groundingCitations ?? []))}
+                        </p>
+
+                        {renderCitations(uniqueSources(message.groundingCitations ?? []))}
+                      </>
+                    )}
                   </div>
                 </Card>
+
+                {message.role === 'assistant' ? renderAnswerActions(message) : renderQuestionActions(message)}
+                {message.error && renderMessageError(message, message.error)}
               </div>
             ))
           )}
           
-          {isLoading && (
+          {streamingReply && !streamingReply.messageId && (
+            <div className="flex justify-start">
+              <Card className="max-w-[80%] p-3 bg-card">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-xs font-medium">ZAIVA</span>
+                  </div>
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                    {streamingReply.text}
+                    <span className="ml-0.5 inline-block h-4 w-1.5 align-text-bottom bg-primary animate-pulse" />
+                  </p>
+                </div>
+              </Card>
+            </div>
+          )}
+
+          {isLoading && !streamingReply && (
             <div className="flex justify-start">
               <Card className="bg-card p-3">
                 <div className="flex items-center gap-2">
@@ -258,13 +638,40 @@ export function ChatInterface({
             </Button>
           </div>
           
-          <Button 
-            type="submit" 
-            disabled={!inputValue.trim() || isLoading || voiceState === 'listening'}
-            className="px-4"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {canOverrideSearch && (
+            <Button
+              type="button"
+              variant={searchMode === 'auto' ? 'ghost' : 'outline'}
+              onClick={() => setSearchMode(NEXT_SEARCH_MODE[searchMode])}
+              className={cn('px-3', searchMode === 'always' && 'text-primary border-primary')}
+              title={searchModeTitle()}
+              aria-label={searchModeTitle()}
+            >
+              {searchMode === 'never'
+                ? <SearchX className="h-4 w-4" />
+                : <Globe className={cn('h-4 w-4', searchMode === 'auto' && !webSearchEnabled && 'opacity-50')} />}
+            </Button>
+          )}
+
+          {canStop && onStop ? (
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={onStop}
+              className="px-4"
+              title="Stop"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </Button>
+          ) : (
+            <Button 
+              type="submit" 
+              disabled={!inputValue.trim() || isLoading || voiceState === 'listening'}
+              className="px-4"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </form>
         
         <input
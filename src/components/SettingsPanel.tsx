@@ -1,28 +1,97 @@
 import { useState } from 'react'
-import { X, Save, User, Mic, Search, FileText } from 'lucide-react'
+import { X, Save, User, Mic, Search, FileText, Ear, Loader2, AudioLines, Cpu, Server } from 'lucide-react'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
 import { Textarea } from './ui/textarea'
 import { Switch } from './ui/switch'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Separator } from './ui/separator'
-import type { ZaivaSettings } from '../types/zaiva'
+import {
+  WAKE_WORD_PHRASE,
+  createWakeWordModel,
+  loadWakeWordModel,
+  recordWakeWordSample,
+  saveWakeWordModel
+} from '../services/wakeWord'
+import { PROMPT_VARIABLES } from '../services/promptTemplate'
+import { DEFAULT_MODEL_IDS, findModel, modelsForEngine, type GenerationParam } from '../services/modelCatalog'
+import type {
+  ZaivaSettings,
+  VoiceActivityConfig,
+  WakeWordModel,
+  ConversationEngine,
+  ConversationModelConfig,
+  GenerationParams,
+  LocalModelConfig
+} from '../types/zaiva'
+
+const WAKE_WORD_SAMPLE_COUNT = 3
+
+// Slider ranges; maxOutputTokens is further capped by the selected model
+const PARAM_CONTROLS: Record<GenerationParam, { label: string; description: string; min: number; max: number; step: number }> = {
+  temperature: {
+    label: 'Temperature',
+    description: 'Higher values make answers more varied, lower values more predictable',
+    min: 0,
+    max: 2,
+    step: 0.05
+  },
+  topP: {
+    label: 'Top P',
+    description: 'Only sample from the most likely words that together make up this probability',
+    min: 0,
+    max: 1,
+    step: 0.05
+  },
+  topK: {
+    label: 'Top K',
+    description: 'Only sample from this many of the most likely words',
+    min: 1,
+    max: 100,
+    step: 1
+  },
+  maxOutputTokens: {
+    label: 'Maximum Answer Length',
+    description: 'Upper limit on tokens per answer; long answers are cut off here',
+    min: 256,
+    max: 32768,
+    step: 256
+  }
+}
 
 interface SettingsPanelProps {
   settings: ZaivaSettings
-  onSettingsChange: (settings: ZaivaSettings) => void
+  // Model choices of the open conversation, or of the next new one when none is open
+  modelConfig: ConversationModelConfig
+  hasActiveConversation: boolean
+  onSettingsChange: (settings: ZaivaSettings, modelConfig: ConversationModelConfig) => void
   onClose: () => void
 }
 
-export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsPanelProps) {
+export function SettingsPanel({
+  settings,
+  modelConfig,
+  hasActiveConversation,
+  onSettingsChange,
+  onClose
+}: SettingsPanelProps) {
   const [localSettings, setLocalSettings] = useState<ZaivaSettings>(settings)
+  const [localModelConfig, setLocalModelConfig] = useState<ConversationModelConfig>(modelConfig)
   const [isSaving, setIsSaving] = useState(false)
+  const [wakeWordModel, setWakeWordModel] = useState<WakeWordModel | null>(() => loadWakeWordModel())
+  const [wakeWordSamples, setWakeWordSamples] = useState<number[][][]>([])
+  const [isRecordingSample, setIsRecordingSample] = useState(false)
+  const [wakeWordError, setWakeWordError] = useState<string | null>(null)
 
   const handleSave = async () => {
     setIsSaving(true)
     try {
-      onSettingsChange(localSettings)
+      // Enrolling or resetting the wake word only takes effect on save, like every other setting
+      saveWakeWordModel(wakeWordModel)
+      onSettingsChange(localSettings, localModelConfig)
       // Simulate save delay
       await new Promise(resolve => setTimeout(resolve, 500))
     } finally {
@@ -37,6 +106,64 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
     setLocalSettings(prev => ({ ...prev, [key]: value }))
   }
 
+  const recordWakeWord = async () => {
+    setIsRecordingSample(true)
+    setWakeWordError(null)
+    try {
+      const sample = await recordWakeWordSample()
+      const samples = [...wakeWordSamples, sample]
+
+      if (samples.length < WAKE_WORD_SAMPLE_COUNT) {
+        setWakeWordSamples(samples)
+        return
+      }
+
+      const model = createWakeWordModel(samples)
+      setWakeWordModel(model)
+      setWakeWordSamples([])
+      updateSetting('wakeWordEnabled', true)
+    } catch (error) {
+      setWakeWordError(error instanceof Error ? error.message : 'Failed to record wake word')
+      setWakeWordSamples([])
+    } finally {
+      setIsRecordingSample(false)
+    }
+  }
+
+  const resetWakeWord = () => {
+    setWakeWordModel(null)
+    setWakeWordSamples([])
+    updateSetting('wakeWordEnabled', false)
+  }
+
+  const engine = localSettings.conversationEngine
+  const selectedModel = findModel(localModelConfig.models[engine]) ?? findModel(DEFAULT_MODEL_IDS[engine])!
+
+  const updateModel = (modelId: string) => {
+    setLocalModelConfig(prev => ({ ...prev, models: { ...prev.models, [engine]: modelId } }))
+  }
+
+  const updateGenerationParam = (param: GenerationParam, value: number) => {
+    setLocalModelConfig(prev => ({ ...prev, params: { ...prev.params, [param]: value } as GenerationParams }))
+  }
+
+  const updateLocalModel = <K extends keyof LocalModelConfig>(key: K, value: LocalModelConfig[K]) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      localModel: { ...prev.localModel, [key]: value }
+    }))
+  }
+
+  const updateVoiceActivity = <K extends keyof VoiceActivityConfig>(
+    key: K,
+    value: VoiceActivityConfig[K]
+  ) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      voiceActivity: { ...prev.voiceActivity, [key]: value }
+    }))
+  }
+
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <Card className="w-full max-w-2xl max-h-[90vh] overflow-hidden">
@@ -98,6 +225,155 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
                 <p className="text-xs text-muted-foreground">
                   Define ZAIVA's personality, tone, and behavior. This affects all interactions.
                 </p>
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <p>These placeholders are filled in each time a request is sent:</p>
+                  <ul className="space-y-0.5">
+                    {PROMPT_VARIABLES.map(variable => (
+                      <li key={variable.name}>
+                        <code className="font-mono text-foreground">{`{{${variable.name}}}`}</code> – {variable.description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Conversation Engine Section */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <AudioLines className="h-5 w-5 text-primary" />
+              <h3 className="text-lg font-semibold">Conversation Engine</h3>
+            </div>
+            
+            <div className="grid gap-4 pl-7">
+              <div className="grid gap-2">
+                <Label htmlFor="conversation-engine">Engine</Label>
+                <Select
+                  value={localSettings.conversationEngine}
+                  onValueChange={(value) => updateSetting('conversationEngine', value as ConversationEngine)}
+                >
+                  <SelectTrigger id="conversation-engine">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="classic">Classic (speech-to-text, LLM, text-to-speech)</SelectItem>
+                    <SelectItem value="live">Gemini Live (real-time audio)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Gemini Live streams your voice and answers while you are still talking. Messages are saved the same way with either engine.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Model Section */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Cpu className="h-5 w-5 text-primary" />
+              <h3 className="text-lg font-semibold">Model</h3>
+            </div>
+            
+            <div className="grid gap-4 pl-7">
+              <p className="text-xs text-muted-foreground">
+                {hasActiveConversation
+                  ? 'These apply to the open conversation only. Each answer remembers the model that wrote it.'
+                  : 'No conversation is open, so these apply to the next one you start.'}
+              </p>
+
+              <div className="grid gap-2">
+                <Label htmlFor="model">
+                  {engine === 'live' ? 'Gemini Live Model' : 'Classic Model'}
+                </Label>
+                <Select value={selectedModel.id} onValueChange={updateModel}>
+                  <SelectTrigger id="model">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {modelsForEngine(engine).map(model => (
+                      <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{selectedModel.description}</p>
+              </div>
+
+              {selectedModel.params.map(param => {
+                const control = PARAM_CONTROLS[param]
+                const max = param === 'maxOutputTokens' ? selectedModel.maxOutputTokens : control.max
+                const value = Math.min(localModelConfig.params[param], max)
+
+                return (
+                  <div key={param} className="grid gap-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor={`param-${param}`}>{control.label}</Label>
+                      <span className="text-xs text-muted-foreground">{value}</span>
+                    </div>
+                    <Slider
+                      id={`param-${param}`}
+                      min={control.min}
+                      max={max}
+                      step={control.step}
+                      value={[value]}
+                      onValueChange={([next]) => updateGenerationParam(param, next)}
+                    />
+                    <p className="text-xs text-muted-foreground">{control.description}</p>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Local Model Section */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Server className="h-5 w-5 text-primary" />
+              <h3 className="text-lg font-semibold">Local Model Server</h3>
+            </div>
+            
+            <div className="grid gap-4 pl-7">
+              <p className="text-xs text-muted-foreground">
+                Used when a conversation's model is set to the local model. Any server with an OpenAI-compatible
+                chat completions API works, such as llama.cpp or Ollama. Voice input and spoken answers need its
+                audio endpoints as well.
+              </p>
+
+              <div className="grid gap-2">
+                <Label htmlFor="local-base-url">Base URL</Label>
+                <Input
+                  id="local-base-url"
+                  value={localSettings.localModel.baseUrl}
+                  onChange={(e) => updateLocalModel('baseUrl', e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="local-model">Model</Label>
+                <Input
+                  id="local-model"
+                  value={localSettings.localModel.model}
+                  onChange={(e) => updateLocalModel('model', e.target.value)}
+                  placeholder="llama3.2"
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="local-api-key">API Key</Label>
+                <Input
+                  id="local-api-key"
+                  type="password"
+                  value={localSettings.localModel.apiKey ?? ''}
+                  onChange={(e) => updateLocalModel('apiKey', e.target.value || undefined)}
+                  placeholder="Optional"
+                />
               </div>
             </div>
           </div>
@@ -139,6 +415,167 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
                   onCheckedChange={(checked) => updateSetting('autoTranscription', checked)}
                 />
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="hands-free">Hands-free Mode</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Stop recording automatically when you finish speaking
+                  </p>
+                </div>
+                <Switch
+                  id="hands-free"
+                  checked={localSettings.handsFreeEnabled}
+                  onCheckedChange={(checked) => updateSetting('handsFreeEnabled', checked)}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="barge-in">Interrupt by Talking</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Keep the microphone on while ZAIVA speaks so you can talk over it
+                  </p>
+                </div>
+                <Switch
+                  id="barge-in"
+                  checked={localSettings.bargeInEnabled}
+                  onCheckedChange={(checked) => updateSetting('bargeInEnabled', checked)}
+                />
+              </div>
+
+              {localSettings.handsFreeEnabled && (
+                <div className="grid gap-4">
+                  <div className="grid gap-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="silence-threshold">Silence Threshold</Label>
+                      <span className="text-xs text-muted-foreground">
+                        {localSettings.voiceActivity.silenceThreshold} dB
+                      </span>
+                    </div>
+                    <Slider
+                      id="silence-threshold"
+                      min={-70}
+                      max={-20}
+                      step={1}
+                      value={[localSettings.voiceActivity.silenceThreshold]}
+                      onValueChange={([value]) => updateVoiceActivity('silenceThreshold', value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Raise this in noisy rooms so background noise is not mistaken for speech
+                    </p>
+                  </div>
+
+                  <div className="grid gap-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="hangover-time">Pause Before Sending</Label>
+                      <span className="text-xs text-muted-foreground">
+                        {(localSettings.voiceActivity.hangoverMs / 1000).toFixed(1)} s
+                      </span>
+                    </div>
+                    <Slider
+                      id="hangover-time"
+                      min={300}
+                      max={3000}
+                      step={100}
+                      value={[localSettings.voiceActivity.hangoverMs]}
+                      onValueChange={([value]) => updateVoiceActivity('hangoverMs', value)}
+                    />
+                  </div>
+
+                  <div className="grid gap-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="max-utterance">Maximum Utterance Length</Label>
+                      <span className="text-xs text-muted-foreground">
+                        {localSettings.voiceActivity.maxUtteranceMs / 1000} s
+                      </span>
+                    </div>
+                    <Slider
+                      id="max-utterance"
+                      min={5000}
+                      max={120000}
+                      step={5000}
+                      value={[localSettings.voiceActivity.maxUtteranceMs]}
+                      onValueChange={([value]) => updateVoiceActivity('maxUtteranceMs', value)}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Wake Word Section */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Ear className="h-5 w-5 text-primary" />
+              <h3 className="text-lg font-semibold">Wake Word</h3>
+            </div>
+            
+            <div className="grid gap-4 pl-7">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="wake-word">Always Listening</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Start a voice turn by saying "{WAKE_WORD_PHRASE}". Detection runs entirely on this device.
+                  </p>
+                </div>
+                <Switch
+                  id="wake-word"
+                  checked={localSettings.wakeWordEnabled}
+                  disabled={!wakeWordModel}
+                  onCheckedChange={(checked) => updateSetting('wakeWordEnabled', checked)}
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={recordWakeWord}
+                    disabled={isRecordingSample}
+                  >
+                    {isRecordingSample && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {isRecordingSample
+                      ? 'Listening...'
+                      : `Record sample ${wakeWordSamples.length + 1} of ${WAKE_WORD_SAMPLE_COUNT}`}
+                  </Button>
+                  {wakeWordModel && (
+                    <Button variant="ghost" size="sm" onClick={resetWakeWord} disabled={isRecordingSample}>
+                      Reset
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {wakeWordModel
+                    ? `Trained with ${wakeWordModel.templates.length} samples. Record again to retrain.`
+                    : `Say "${WAKE_WORD_PHRASE}" after each click to train the detector on your voice.`}
+                </p>
+                {wakeWordError && (
+                  <p className="text-xs text-destructive">{wakeWordError}</p>
+                )}
+              </div>
+
+              {wakeWordModel && (
+                <div className="grid gap-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="wake-word-sensitivity">Sensitivity</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {Math.round(localSettings.wakeWordSensitivity * 100)}%
+                    </span>
+                  </div>
+                  <Slider
+                    id="wake-word-sensitivity"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={[localSettings.wakeWordSensitivity]}
+                    onValueChange={([value]) => updateSetting('wakeWordSensitivity', value)}
+                  />
+                </div>
+              )}
             </div>
           </div>
 
@@ -156,7 +593,8 @@ export function SettingsPanel({ settings, onSettingsChange, onClose }: SettingsP
                 <div className="space-y-0.5">
                   <Label htmlFor="web-search">Web Search</Label>
                   <p className="text-xs text-muted-foreground">
-                    Allow ZAIVA to search the web for current information
+                    Allow ZAIVA to search the web for current information. The globe button next to the
+                    message box overrides this for a single typed message.
                   </p>
                 </div>
                 <Switch
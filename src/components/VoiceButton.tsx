@@ -1,8 +1,17 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
-import { Mic, MicOff, Volume2, Loader2, Zap } from 'lucide-react'
+import { Mic, MicOff, Volume2, Loader2, Zap, Ear } from 'lucide-react'
 import { Button } from './ui/button'
 import { cn } from '../lib/utils'
-import type { VoiceState } from '../types/zaiva'
+import { VoiceActivityDetector, DEFAULT_VOICE_ACTIVITY } from '../services/voiceActivity'
+import { WakeWordDetector, WAKE_WORD_PHRASE } from '../services/wakeWord'
+import { PcmCaptureStream } from '../services/audioCapture'
+import type { VoiceState, VoiceActivityConfig, WakeWordModel } from '../types/zaiva'
+
+// While ZAIVA is talking, residual echo must be beaten by a clear margin and
+// the user has to keep talking a little longer before it counts as barge-in
+const BARGE_IN_MARGIN_DB = 12
+const BARGE_IN_MIN_SPEECH_MS = 250
+const BARGE_IN_POLL_MS = 20
 
 interface VoiceButtonProps {
   state: VoiceState
@@ -10,6 +19,17 @@ interface VoiceButtonProps {
   disabled?: boolean
   onAudioData?: (audioData: Blob) => void
   onAudioProcessed?: (transcribedText: string, aiResponse: string) => void
+  // Real-time streaming: 16 kHz Int16 PCM frames delivered while the user is talking
+  onAudioFrame?: (pcm: ArrayBuffer) => void
+  onAudioStreamEnd?: () => void
+  // Hands-free mode: end the utterance automatically after trailing silence
+  voiceActivity?: VoiceActivityConfig
+  // Stops ZAIVA's playback; called on tap while speaking and on voice barge-in
+  onInterrupt?: () => void
+  // Keep the microphone armed while ZAIVA speaks so talking over it interrupts
+  bargeIn?: boolean
+  // Always-listening mode: start recording when the local keyword spotter hears the wake word
+  wakeWord?: { model: WakeWordModel; sensitivity: number }
 }
 
 export function VoiceButton({ 
@@ -17,20 +37,36 @@ export function VoiceButton({
   onStateChange, 
   disabled = false,
   onAudioData,
-  onAudioProcessed
+  onAudioProcessed,
+  onAudioFrame,
+  onAudioStreamEnd,
+  voiceActivity,
+  onInterrupt,
+  bargeIn = false,
+  wakeWord
 }: VoiceButtonProps) {
   const [isPressed, setIsPressed] = useState(false)
   const [audioLevel, setAudioLevel] = useState(0)
+  const [isWakeWordArmed, setIsWakeWordArmed] = useState(false)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
   const animationFrameRef = useRef<number>()
   const audioChunksRef = useRef<Blob[]>([])
+  const vadRef = useRef<VoiceActivityDetector | null>(null)
+  const captureRef = useRef<PcmCaptureStream | null>(null)
+  const discardRecordingRef = useRef(false)
+  const isRecordingRef = useRef(false)
+  const stopListeningRef = useRef<() => void>(() => {})
+  // Latest callbacks for the long-lived microphone effects below. Parents pass new functions on
+  // every render, and re-arming the microphone each time would reset detection mid-utterance.
+  const startListeningRef = useRef<(handsFree?: boolean) => Promise<void>>(async () => {})
+  const onInterruptRef = useRef(onInterrupt)
 
-  // Audio level monitoring
+  // Audio level monitoring and end-of-utterance detection
   const monitorAudioLevel = useCallback(() => {
-    if (!analyserRef.current) return
+    if (!analyserRef.current || !isRecordingRef.current) return
 
     const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount)
     analyserRef.current.getByteFrequencyData(dataArray)
@@ -39,12 +75,16 @@ export function VoiceButton({
     const average = dataArray.reduce((sum, value) => sum + value, 0) / dataArray.length
     setAudioLevel(average / 255) // Normalize to 0-1
 
-    if (state === 'listening') {
-      animationFrameRef.current = requestAnimationFrame(monitorAudioLevel)
+    const vadEvent = vadRef.current?.update()
+    if (vadEvent === 'speech-end' || vadEvent === 'max-duration') {
+      stopListeningRef.current()
+      return
     }
-  }, [state])
 
-  const startListening = useCallback(async () => {
+    animationFrameRef.current = requestAnimationFrame(monitorAudioLevel)
+  }, [])
+
+  const startListening = useCallback(async (handsFree = false) => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ 
         audio: {
@@ -63,9 +103,22 @@ export function VoiceButton({
       audioContextRef.current = new AudioContext({ sampleRate: 16000 })
       const source = audioContextRef.current.createMediaStreamSource(stream)
       analyserRef.current = audioContextRef.current.createAnalyser()
-      analyserRef.current.fftSize = 256
+      analyserRef.current.fftSize = 1024
       source.connect(analyserRef.current)
 
+      // Wake-word and barge-in turns are always hands-free, nobody tapped the button to start them
+      const vadConfig = voiceActivity ?? (handsFree ? DEFAULT_VOICE_ACTIVITY : undefined)
+      vadRef.current = vadConfig
+        ? new VoiceActivityDetector(analyserRef.current, vadConfig)
+        : null
+
+      if (onAudioFrame) {
+        const capture = new PcmCaptureStream()
+        capture.onFrame = onAudioFrame
+        await capture.start(audioContextRef.current, source)
+        captureRef.current = capture
+      }
+
       // Set up media recorder
       const mediaRecorder = new MediaRecorder(stream, {
         mimeType: 'audio/webm;codecs=opus'
@@ -79,12 +132,16 @@ export function VoiceButton({
         }
       }
 
+      discardRecordingRef.current = false
       mediaRecorder.onstop = () => {
+        if (discardRecordingRef.current) return
+
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' })
         onAudioData?.(audioBlob)
       }
       
       mediaRecorder.start(100) // 100ms chunks
+      isRecordingRef.current = true
       onStateChange('listening')
       
       // Start audio level monitoring
@@ -93,9 +150,15 @@ export function VoiceButton({
       console.error('Failed to start recording:', error)
       onStateChange('idle')
     }
-  }, [onStateChange, onAudioData, monitorAudioLevel])
+  }, [onStateChange, onAudioData, onAudioFrame, monitorAudioLevel, voiceActivity])
 
   const stopListening = useCallback(() => {
+    // In hands-free mode, an utterance that never contained speech is not worth sending
+    const hasSpeech = vadRef.current?.hasDetectedSpeech ?? true
+    discardRecordingRef.current = !hasSpeech
+    isRecordingRef.current = false
+    vadRef.current = null
+
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.stop()
     }
@@ -105,9 +168,19 @@ export function VoiceButton({
       streamRef.current = null
     }
 
-    if (audioContextRef.current) {
-      audioContextRef.current.close()
-      audioContextRef.current = null
+    const audioContext = audioContextRef.current
+    audioContextRef.current = null
+    const capture = captureRef.current
+    captureRef.current = null
+
+    if (capture) {
+      // Let the worklet flush its last frame before the context goes away
+      capture.stop().finally(() => {
+        audioContext?.close()
+        if (hasSpeech) onAudioStreamEnd?.()
+      })
+    } else {
+      audioContext?.close()
     }
 
     if (animationFrameRef.current) {
@@ -115,13 +188,101 @@ export function VoiceButton({
     }
     
     setAudioLevel(0)
-    onStateChange('processing')
-    
-    // Simulate processing delay (will be replaced with actual Gemini Live API)
-    setTimeout(() => {
-      onStateChange('idle')
-    }, 1500)
-  }, [onStateChange])
+    // The conversation engine moves the state on from 'processing' once it answers
+    onStateChange(hasSpeech ? 'processing' : 'idle')
+  }, [onStateChange, onAudioStreamEnd])
+
+  useEffect(() => {
+    stopListeningRef.current = stopListening
+    startListeningRef.current = startListening
+    onInterruptRef.current = onInterrupt
+  }, [stopListening, startListening, onInterrupt])
+
+  // Wake word listening while idle. The detector owns the microphone only until it
+  // fires; from then on the regular recording path takes over.
+  useEffect(() => {
+    if (!wakeWord || disabled || state !== 'idle') return
+
+    const detector = new WakeWordDetector(wakeWord.model, wakeWord.sensitivity)
+    detector.onWake = () => {
+      detector.stop()
+      setIsWakeWordArmed(false)
+      startListeningRef.current(true)
+    }
+    detector.onError = (error) => {
+      console.error('Wake word listener error:', error)
+      setIsWakeWordArmed(false)
+    }
+
+    detector.start()
+    setIsWakeWordArmed(true)
+
+    return () => {
+      detector.stop()
+      setIsWakeWordArmed(false)
+    }
+  }, [wakeWord, disabled, state])
+
+  // Barge-in: listen for the user talking over ZAIVA, then stop playback and capture the new utterance
+  useEffect(() => {
+    if (!bargeIn || disabled || state !== 'speaking') return
+
+    let isReleased = false
+    let stream: MediaStream | null = null
+    let audioContext: AudioContext | null = null
+    let timer: number | null = null
+
+    const release = () => {
+      isReleased = true
+      if (timer !== null) clearInterval(timer)
+      timer = null
+      stream?.getTracks().forEach(track => track.stop())
+      stream = null
+      audioContext?.close()
+      audioContext = null
+    }
+
+    const arm = async () => {
+      try {
+        const micStream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            channelCount: 1,
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: true
+          }
+        })
+        if (isReleased) {
+          micStream.getTracks().forEach(track => track.stop())
+          return
+        }
+        stream = micStream
+
+        audioContext = new AudioContext({ sampleRate: 16000 })
+        const analyser = audioContext.createAnalyser()
+        analyser.fftSize = 1024
+        audioContext.createMediaStreamSource(micStream).connect(analyser)
+
+        const detector = new VoiceActivityDetector(
+          analyser,
+          { ...(voiceActivity ?? DEFAULT_VOICE_ACTIVITY), maxUtteranceMs: Infinity },
+          { minSpeechMs: BARGE_IN_MIN_SPEECH_MS, adaptiveMarginDb: BARGE_IN_MARGIN_DB }
+        )
+
+        timer = window.setInterval(() => {
+          if (detector.update() !== 'speech-start') return
+          release()
+          onInterruptRef.current?.()
+          startListeningRef.current(true)
+        }, BARGE_IN_POLL_MS)
+      } catch (error) {
+        console.error('Failed to arm barge-in microphone:', error)
+      }
+    }
+
+    arm()
+    return release
+  }, [bargeIn, disabled, state, voiceActivity])
 
   const handleClick = useCallback(() => {
     if (disabled) return
@@ -135,12 +296,13 @@ export function VoiceButton({
         break
       case 'speaking':
         // Interrupt speaking
+        onInterrupt?.()
         onStateChange('idle')
         break
       default:
         break
     }
-  }, [state, disabled, startListening, stopListening, onStateChange])
+  }, [state, disabled, startListening, stopListening, onStateChange, onInterrupt])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -166,7 +328,7 @@ export function VoiceButton({
       case 'speaking':
         return <Volume2 className="h-6 w-6" />
       default:
-        return <MicOff className="h-6 w-6" />
+        return isWakeWordArmed ? <Ear className="h-6 w-6" /> : <MicOff className="h-6 w-6" />
     }
   }
 
@@ -181,20 +343,24 @@ export function VoiceButton({
       case 'speaking':
         return cn(baseClass, "bg-accent hover:bg-accent/90 speaking-animation")
       default:
-        return cn(baseClass, "bg-secondary hover:bg-secondary/80")
+        return cn(
+          baseClass,
+          "bg-secondary hover:bg-secondary/80",
+          isWakeWordArmed && "ring-2 ring-amber-500/70 ring-offset-2 ring-offset-background"
+        )
     }
   }
 
   const getStatusText = () => {
     switch (state) {
       case 'idle':
-        return 'Tap to speak'
+        return isWakeWordArmed ? `Say "${WAKE_WORD_PHRASE}"` : 'Tap to speak'
       case 'listening':
-        return 'Listening...'
+        return voiceActivity ? 'Listening... (hands-free)' : 'Listening...'
       case 'processing':
         return 'Processing...'
       case 'speaking':
-        return 'Speaking...'
+        return bargeIn ? 'Speaking... (talk to interrupt)' : 'Speaking...'
       default:
         return 'Ready'
     }
@@ -231,6 +397,14 @@ export function VoiceButton({
             <Zap className="h-2 w-2 text-white" />
           </div>
         )}
+
+        {/* Wake word indicator */}
+        {state === 'idle' && isWakeWordArmed && (
+          <div
+            className="absolute -top-1 -right-1 w-4 h-4 bg-amber-500 rounded-full animate-pulse"
+            title="On-device wake word listening is active"
+          />
+        )}
       </div>
       
       <div className="text-center">
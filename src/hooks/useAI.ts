@@ -1,92 +1,215 @@
-import { useState, useCallback, useMemo } from 'react'
-import { AIServiceSimple } from '../services/aiServiceSimple'
-import type { VoiceState, GroundingCitation } from '../types/zaiva'
+import { useState, useCallback, useMemo, useRef } from 'react'
+import { ConversationContextBuilder, createSummarizer } from '../services/conversationContext'
+import { resolveModelSelection, type ModelSelection } from '../services/modelCatalog'
+import { aiProviders } from '../services/providerRegistry'
+import { classifyError, withRetry, type AIError } from '../services/aiErrors'
+import type { VoiceState, GroundingCitation, Message } from '../types/zaiva'
 
 interface UseAIOptions {
   systemInstruction?: string
-  onError?: (error: Error) => void
+  webSearchEnabled?: boolean
+  onError?: (error: AIError) => void
+}
+
+interface TextResult {
+  text: string
+  citations?: GroundingCitation[]
+  grounded?: boolean
+  incomplete?: boolean // streaming stopped part way, by the user or because of error
+  error?: AIError
+}
+
+// text is the user's transcribed speech, followed by either the answer or the error that prevented one
+type AudioResult =
+  | { text: string; aiResponse: string; citations?: GroundingCitation[]; grounded?: boolean; error?: undefined }
+  | { text: string; error: AIError }
+
+const logRetry = (error: AIError, attempt: number, delayMs: number) => {
+  console.warn(`AI request failed (${error.kind}), retrying in ${Math.round(delayMs)} ms (attempt ${attempt}):`, error.message)
+}
+
+interface SendTextOptions {
+  history?: Message[] // earlier messages of the conversation, not including the new text
+  onDelta?: (textSoFar: string) => void // called after every streamed chunk
+  search?: boolean // overrides webSearchEnabled for this message
+  modelSelection?: ModelSelection // the conversation's model; the classic default otherwise
 }
 
 export function useAI(options: UseAIOptions = {}) {
   const [voiceState, setVoiceState] = useState<VoiceState>('idle')
   const [isProcessing, setIsProcessing] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<AIError | null>(null)
   
-  const aiService = useMemo(() => new AIServiceSimple(), [])
+  const contextBuilder = useMemo(() => new ConversationContextBuilder(), [])
+  const speechAudioRef = useRef<HTMLAudioElement | null>(null)
+  // Aborts whichever stage of the current request is running
+  const abortControllerRef = useRef<AbortController | null>(null)
 
-  const sendTextMessage = useCallback(async (text: string): Promise<{ text: string; citations?: GroundingCitation[] }> => {
+  const beginRequest = () => {
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    return controller.signal
+  }
+
+  const endRequest = (signal: AbortSignal) => {
+    if (abortControllerRef.current?.signal === signal) {
+      abortControllerRef.current = null
+    }
+  }
+
+  // Streams the answer; resolves to null when cancelled before any text arrived. A failure after some
+  // text arrived resolves to the partial answer with its error; one before that rejects with an AIError.
+  const sendTextMessage = useCallback(async (
+    text: string,
+    { history = [], onDelta, search, modelSelection = resolveModelSelection(undefined, 'classic') }: SendTextOptions = {}
+  ): Promise<TextResult | null> => {
     setIsProcessing(true)
     setError(null)
     setVoiceState('processing')
+    const signal = beginRequest()
 
+    let partial = ''
     try {
-      const response = await aiService.sendTextMessage(text, options.systemInstruction)
+      const provider = aiProviders.get(modelSelection.provider)
+      // Older turns are summarized by the same provider and model, so a local conversation stays local
+      const context = await contextBuilder.build(history, createSummarizer(provider, modelSelection.model), signal)
+
+      // Once text is on screen a retry would repeat it, so only failures before the first chunk are retried
+      const response = await withRetry(async () => {
+        const stream = provider.streamTextMessage(text, {
+          systemInstruction: options.systemInstruction,
+          history: context,
+          search: search ?? options.webSearchEnabled,
+          model: modelSelection.model,
+          params: modelSelection.params,
+          signal
+        })
+
+        let next = await stream.next()
+        while (!next.done) {
+          partial += next.value
+          onDelta?.(partial)
+          next = await stream.next()
+        }
+        return next.value
+      }, { signal, canRetry: () => !partial, onRetry: logRetry })
+
       setVoiceState('idle')
       return response
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to send message'
-      setError(errorMessage)
       setVoiceState('idle')
-      options.onError?.(new Error(errorMessage))
-      throw new Error(errorMessage)
+
+      // Keep what already arrived rather than losing it
+      if (signal.aborted) {
+        return partial ? { text: partial, incomplete: true } : null
+      }
+
+      const aiError = classifyError(err)
+      setError(aiError)
+      options.onError?.(aiError)
+
+      if (partial) {
+        return { text: partial, incomplete: true, error: aiError }
+      }
+      throw aiError
     } finally {
+      endRequest(signal)
       setIsProcessing(false)
     }
-  }, [aiService, options])
+  }, [contextBuilder, options])
 
-  const processAudioMessage = useCallback(async (audioBlob: Blob): Promise<{ text: string; aiResponse: string; citations?: GroundingCitation[] }> => {
+  // Resolves to null when cancelled before an answer was generated. When the answer fails after the speech
+  // was transcribed, the transcript comes back with the error instead of being lost.
+  const processAudioMessage = useCallback(async (
+    audioBlob: Blob,
+    history: Message[] = [],
+    modelSelection: ModelSelection = resolveModelSelection(undefined, 'classic')
+  ): Promise<AudioResult | null> => {
     setIsProcessing(true)
     setError(null)
     setVoiceState('processing')
+    const signal = beginRequest()
+    const provider = aiProviders.get(modelSelection.provider)
+    let transcribedText: string | null = null
 
     try {
       // First transcribe the audio
-      const transcribedText = await aiService.transcribeAudio(audioBlob)
+      transcribedText = await withRetry(() => provider.transcribeAudio(audioBlob, signal), { signal, onRetry: logRetry })
       
-      // Then send the transcribed text to AI
-      const response = await aiService.sendTextMessage(transcribedText, options.systemInstruction)
+      // Then send the transcribed text to AI along with the earlier turns
+      const context = await contextBuilder.build(history, createSummarizer(provider, modelSelection.model), signal)
+      const response = await withRetry(() => provider.sendTextMessage(transcribedText!, {
+        systemInstruction: options.systemInstruction,
+        history: context,
+        search: options.webSearchEnabled,
+        model: modelSelection.model,
+        params: modelSelection.params,
+        signal
+      }), { signal, onRetry: logRetry })
       
-      // Generate speech for the response
+      // Generate speech for the response; cancelling here still keeps the written answer
       try {
-        const speechUrl = await aiService.generateSpeech(response.text)
+        const speechUrl = await withRetry(() => provider.generateSpeech(response.text, signal), { signal, onRetry: logRetry })
+        signal.throwIfAborted()
         
         // Play the generated speech
         setVoiceState('speaking')
         const audio = new Audio(speechUrl)
+        speechAudioRef.current = audio
         
         audio.onended = () => {
+          speechAudioRef.current = null
           setVoiceState('idle')
         }
         
         audio.onerror = () => {
           console.warn('Failed to play generated speech')
+          speechAudioRef.current = null
           setVoiceState('idle')
         }
         
         await audio.play()
       } catch (speechError) {
-        console.warn('Speech generation failed, continuing with text response:', speechError)
+        if (!signal.aborted) {
+          console.warn('Speech generation failed, continuing with text response:', speechError)
+        }
         setVoiceState('idle')
       }
       
       return { 
         text: transcribedText, // User's transcribed speech
         aiResponse: response.text, // AI's response
-        citations: response.citations 
+        citations: response.citations,
+        grounded: response.grounded
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to process audio message'
-      setError(errorMessage)
       setVoiceState('idle')
-      options.onError?.(new Error(errorMessage))
-      throw new Error(errorMessage)
+      if (signal.aborted) return null
+
+      const aiError = classifyError(err)
+      setError(aiError)
+      options.onError?.(aiError)
+
+      if (transcribedText) {
+        return { text: transcribedText, error: aiError }
+      }
+      throw aiError
     } finally {
+      endRequest(signal)
       setIsProcessing(false)
     }
-  }, [aiService, options])
+  }, [contextBuilder, options])
 
   const stopAudioPlayback = useCallback(() => {
-    // Stop any currently playing audio
+    // The spoken answer is a detached Audio element, so it is not in the DOM
+    if (speechAudioRef.current) {
+      speechAudioRef.current.onended = null
+      speechAudioRef.current.pause()
+      speechAudioRef.current = null
+    }
+
+    // Stop any other currently playing audio
     const audioElements = document.querySelectorAll('audio')
     audioElements.forEach(audio => {
       audio.pause()
@@ -95,6 +218,13 @@ export function useAI(options: UseAIOptions = {}) {
     setVoiceState('idle')
   }, [])
 
+  // Stop button: abandons the running request (transcription, generation or speech) and any playback
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    stopAudioPlayback()
+  }, [stopAudioPlayback])
+
   return {
     voiceState,
     isProcessing,
@@ -102,6 +232,7 @@ export function useAI(options: UseAIOptions = {}) {
     sendTextMessage,
     processAudioMessage,
     stopAudioPlayback,
+    cancel,
     setVoiceState
   }
 }
\ No newline at end of file
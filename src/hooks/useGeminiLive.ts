@@ -1,68 +1,181 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { GeminiLiveService } from '../services/geminiLive'
-import type { VoiceState, GroundingCitation } from '../types/zaiva'
+import type { LiveConnectionState, LiveSession } from '../services/aiProvider'
+import type { PlaybackPosition } from '../services/audioPlayback'
+import type { LiveToolRegistry } from '../services/liveTools'
+import { resolveModelSelection, type ModelSelection } from '../services/modelCatalog'
+import { aiProviders } from '../services/providerRegistry'
+import type { VoiceState, GroundingCitation, ToolInvocation } from '../types/zaiva'
 import { blink } from '../blink/client'
 
+export interface LiveTurn {
+  // What the user said, when the turn was spoken rather than typed
+  userTranscript: string
+  // The model's text, or the transcript of its spoken answer when it only sent audio
+  text: string
+  citations: GroundingCitation[]
+  grounded: boolean
+  interrupted: boolean
+}
+
 interface UseGeminiLiveOptions {
+  enabled?: boolean
   systemInstruction?: string
+  webSearchEnabled?: boolean
+  // Model and parameters the session is set up with; changing them reconnects
+  modelSelection?: ModelSelection
+  // Identifies the server-side session; changing it opens a new (or resumed) session
+  sessionId?: string | null
+  sessionResumptionHandle?: string
+  tools?: LiveToolRegistry
   onTextResponse?: (text: string) => void
   onCitationsReceived?: (citations: GroundingCitation[]) => void
+  onTurnComplete?: (turn: LiveTurn) => void
+  // userTranscript is what the user said before the call, handed over so it can be saved first
+  onToolCall?: (invocation: ToolInvocation, userTranscript: string) => void
+  onToolResult?: (invocation: ToolInvocation) => void
+  onToolCancelled?: (id: string) => void
+  onSessionResumptionUpdate?: (handle: string | null) => void
   onError?: (error: Error) => void
 }
 
 export function useGeminiLive(options: UseGeminiLiveOptions = {}) {
-  const [isConnected, setIsConnected] = useState(false)
-  const [isConnecting, setIsConnecting] = useState(false)
+  const {
+    enabled = true,
+    systemInstruction,
+    webSearchEnabled = true,
+    sessionId,
+    modelSelection = resolveModelSelection(undefined, 'live')
+  } = options
+  // Compared by value: callers rebuild the selection object whenever conversations reload
+  const { provider: providerId, model } = modelSelection
+  const generationParamsKey = JSON.stringify(modelSelection.params)
+
+  const [connectionState, setConnectionState] = useState<LiveConnectionState>('disconnected')
   const [voiceState, setVoiceState] = useState<VoiceState>('idle')
   const [currentResponse, setCurrentResponse] = useState('')
+  const [userTranscript, setUserTranscript] = useState('')
+  // How far playback of the current spoken answer has got
+  const [playbackPosition, setPlaybackPosition] = useState<PlaybackPosition | null>(null)
   const [citations, setCitations] = useState<GroundingCitation[]>([])
   const [error, setError] = useState<string | null>(null)
   
-  const serviceRef = useRef<GeminiLiveService | null>(null)
+  const serviceRef = useRef<LiveSession | null>(null)
   const responseBufferRef = useRef('')
+  const citationsBufferRef = useRef<GroundingCitation[]>([])
+  const inputTranscriptRef = useRef('')
+  const outputTranscriptRef = useRef('')
+  const interruptedRef = useRef(false)
+  const groundedRef = useRef(false)
+  // Bumped on disconnect so a connect() still in flight knows it was cancelled
+  const connectionAttemptRef = useRef(0)
+  // Callbacks change on every render; keep the latest ones without reconnecting
+  const optionsRef = useRef(options)
+
+  useEffect(() => {
+    optionsRef.current = options
+  })
+
+  const resetTurnBuffers = useCallback(() => {
+    responseBufferRef.current = ''
+    citationsBufferRef.current = []
+    inputTranscriptRef.current = ''
+    outputTranscriptRef.current = ''
+    interruptedRef.current = false
+    groundedRef.current = false
+    setCurrentResponse('')
+    setUserTranscript('')
+  }, [])
 
   const connect = useCallback(async () => {
-    if (isConnecting || isConnected) return
+    if (serviceRef.current) return
 
-    setIsConnecting(true)
+    setConnectionState('connecting')
     setError(null)
+    const attempt = ++connectionAttemptRef.current
 
     try {
-      // Get API key from Blink secrets via secure fetch
-      const response = await blink.data.fetch({
-        url: 'https://api.blink.new/internal/secrets/GEMINI_API_KEY',
-        method: 'GET'
-      })
-      
-      const apiKey = response.body?.value
-      if (!apiKey) {
-        throw new Error('Gemini API key not found. Please check your project secrets.')
+      // The relay authenticates with the user's Blink token; the Gemini key stays server-side
+      const provider = aiProviders.get(providerId)
+      if (!provider.createLiveSession) {
+        throw new Error(`AI provider "${providerId}" does not support live sessions`)
       }
 
-      const service = new GeminiLiveService({
-        apiKey,
-        systemInstruction: options.systemInstruction
+      const service = provider.createLiveSession({
+        getAccessToken: () => blink.auth.getValidToken(),
+        systemInstruction,
+        webSearch: webSearchEnabled,
+        model,
+        generationParams: JSON.parse(generationParamsKey),
+        // Read at connect time so handle updates during a session don't force a reconnect
+        sessionResumptionHandle: optionsRef.current.sessionResumptionHandle,
+        tools: optionsRef.current.tools
       })
 
       // Set up event handlers
       service.onTextResponse = (text: string) => {
         responseBufferRef.current += text
         setCurrentResponse(responseBufferRef.current)
-        options.onTextResponse?.(text)
+        optionsRef.current.onTextResponse?.(text)
       }
 
       service.onCitationsReceived = (newCitations: GroundingCitation[]) => {
-        setCitations(prev => [...prev, ...newCitations])
-        options.onCitationsReceived?.(newCitations)
+        // Grounding metadata only comes with answers that used Google Search
+        groundedRef.current = true
+        citationsBufferRef.current = [...citationsBufferRef.current, ...newCitations]
+        setCitations(citationsBufferRef.current)
+        optionsRef.current.onCitationsReceived?.(newCitations)
+      }
+
+      service.onInputTranscription = (text: string) => {
+        inputTranscriptRef.current += text
+        setUserTranscript(inputTranscriptRef.current)
+      }
+
+      service.onOutputTranscription = (text: string) => {
+        outputTranscriptRef.current += text
+        // Text parts take precedence; the transcript only fills in for audio-only answers
+        if (!responseBufferRef.current) {
+          setCurrentResponse(outputTranscriptRef.current)
+        }
+      }
+
+      service.onToolCall = (invocation: ToolInvocation) => {
+        const userTranscript = inputTranscriptRef.current.trim()
+        inputTranscriptRef.current = ''
+        setUserTranscript('')
+        optionsRef.current.onToolCall?.(invocation, userTranscript)
+      }
+
+      service.onToolResult = (invocation: ToolInvocation) => {
+        optionsRef.current.onToolResult?.(invocation)
+      }
+
+      service.onToolCancelled = (id: string) => {
+        optionsRef.current.onToolCancelled?.(id)
+      }
+
+      service.onInterrupted = () => {
+        interruptedRef.current = true
       }
 
       service.onTurnComplete = () => {
-        setVoiceState('idle')
-        responseBufferRef.current = ''
-        setCurrentResponse('')
+        const turn: LiveTurn = {
+          userTranscript: inputTranscriptRef.current.trim(),
+          text: (responseBufferRef.current || outputTranscriptRef.current).trim(),
+          citations: citationsBufferRef.current,
+          grounded: groundedRef.current,
+          interrupted: interruptedRef.current
+        }
+        setVoiceState(prev => prev === 'speaking' ? prev : 'idle')
+        resetTurnBuffers()
+
+        if (turn.text || turn.userTranscript) {
+          optionsRef.current.onTurnComplete?.(turn)
+        }
       }
 
       service.onAudioPlaybackStart = () => {
+        setPlaybackPosition(null)
         setVoiceState('speaking')
       }
 
@@ -70,43 +183,65 @@ export function useGeminiLive(options: UseGeminiLiveOptions = {}) {
         setVoiceState('idle')
       }
 
+      service.onPlaybackPosition = (position: PlaybackPosition) => {
+        setPlaybackPosition(position)
+      }
+
+      service.onSessionResumptionUpdate = (handle: string | null) => {
+        optionsRef.current.onSessionResumptionUpdate?.(handle)
+      }
+
+      service.onConnectionStateChange = (state: LiveConnectionState) => {
+        setConnectionState(state)
+        // Anything in flight died with the old socket
+        if (state === 'reconnecting') {
+          setVoiceState(prev => prev === 'processing' ? 'idle' : prev)
+        }
+      }
+
       service.onError = (err: Error) => {
         setError(err.message)
         setVoiceState('idle')
-        options.onError?.(err)
+        optionsRef.current.onError?.(err)
       }
 
-      await service.connect()
       serviceRef.current = service
-      setIsConnected(true)
+      await service.connect()
     } catch (err) {
+      if (attempt !== connectionAttemptRef.current) return
+      serviceRef.current = null
+      setConnectionState('disconnected')
       const errorMessage = err instanceof Error ? err.message : 'Failed to connect to Gemini Live API'
       setError(errorMessage)
-      options.onError?.(new Error(errorMessage))
-    } finally {
-      setIsConnecting(false)
+      optionsRef.current.onError?.(new Error(errorMessage))
     }
-  }, [isConnecting, isConnected, options])
+  }, [systemInstruction, webSearchEnabled, providerId, model, generationParamsKey, resetTurnBuffers])
 
   const disconnect = useCallback(() => {
+    connectionAttemptRef.current++
     if (serviceRef.current) {
       serviceRef.current.disconnect()
       serviceRef.current = null
     }
-    setIsConnected(false)
+    setConnectionState('disconnected')
     setVoiceState('idle')
-    setCurrentResponse('')
     setCitations([])
-  }, [])
+    resetTurnBuffers()
+  }, [resetTurnBuffers])
 
+  const isConnected = connectionState === 'connected'
+
+  // While reconnecting the service queues the turn and replays it once the session is back
   const sendTextMessage = useCallback(async (text: string) => {
-    if (!serviceRef.current || !isConnected) {
+    if (!serviceRef.current) {
       throw new Error('Not connected to Gemini Live API')
     }
 
     try {
       setVoiceState('processing')
       responseBufferRef.current = ''
+      citationsBufferRef.current = []
+      groundedRef.current = false
       setCitations([])
       await serviceRef.current.sendTextMessage(text)
     } catch (err) {
@@ -115,63 +250,56 @@ export function useGeminiLive(options: UseGeminiLiveOptions = {}) {
       setError(errorMessage)
       throw new Error(errorMessage)
     }
+  }, [])
+
+  const sendAudioChunk = useCallback((pcm: ArrayBuffer) => {
+    if (!serviceRef.current || !isConnected) return
+    serviceRef.current.sendAudioChunk(pcm)
   }, [isConnected])
 
-  const sendAudioMessage = useCallback(async (audioBlob: Blob) => {
-    if (!serviceRef.current || !isConnected) {
-      throw new Error('Not connected to Gemini Live API')
-    }
+  const endAudioStream = useCallback(() => {
+    if (!serviceRef.current || !isConnected) return
 
-    try {
-      setVoiceState('processing')
-      responseBufferRef.current = ''
-      setCitations([])
-      await serviceRef.current.sendAudioMessage(audioBlob)
-    } catch (err) {
-      setVoiceState('idle')
-      const errorMessage = err instanceof Error ? err.message : 'Failed to send audio message'
-      setError(errorMessage)
-      throw new Error(errorMessage)
-    }
+    setVoiceState('processing')
+    citationsBufferRef.current = []
+    groundedRef.current = false
+    setCitations([])
+    serviceRef.current.endAudioStream()
   }, [isConnected])
 
-  const stopAudioPlayback = useCallback(() => {
-    if (serviceRef.current) {
-      serviceRef.current.stopAudioPlayback()
-    }
+  const stopAudioPlayback = useCallback((): PlaybackPosition | null => {
+    const position = serviceRef.current?.stopAudioPlayback() ?? null
     setVoiceState('idle')
+    return position
   }, [])
 
-  // Auto-connect on mount
+  // Connect while enabled; reconnect when the system instruction, search setting, model or session changes
   useEffect(() => {
+    if (!enabled) return
+
     connect()
     
     return () => {
       disconnect()
     }
-  }, [connect, disconnect])
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (serviceRef.current) {
-        serviceRef.current.disconnect()
-      }
-    }
-  }, [])
+  }, [enabled, connect, disconnect, sessionId])
 
   return {
+    connectionState,
     isConnected,
-    isConnecting,
+    isConnecting: connectionState === 'connecting',
     voiceState,
     currentResponse,
+    userTranscript,
+    playbackPosition,
     citations,
     error,
     connect,
     disconnect,
     sendTextMessage,
-    sendAudioMessage,
+    sendAudioChunk,
+    endAudioStream,
     stopAudioPlayback,
     setVoiceState
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,55 @@
+// Branches of a conversation. Every message names the message it follows as parentId; the first turn's
+// parent is the conversation itself. Editing a user message adds a sibling of it, so the original
+// continuation stays on its own branch, and a conversation shows one path from its first turn to a leaf.
+import type { Message } from '../types/zaiva'
+
+// Messages saved before branching existed have no parentId; they form a single line in timestamp order
+export function withParents(messages: Message[], conversationId: string): Message[] {
+  return messages.map((message, index) => message.parentId
+    ? message
+    : { ...message, parentId: index > 0 ? messages[index - 1].id : conversationId })
+}
+
+export function childrenOf(messages: Message[], parentId: string): Message[] {
+  return messages.filter(message => message.parentId === parentId)
+}
+
+export function siblingsOf(messages: Message[], message: Message): Message[] {
+  return message.parentId ? childrenOf(messages, message.parentId) : [message]
+}
+
+// Where a branch ends when switching to it: always following the newest continuation
+export function latestLeaf(messages: Message[], messageId: string): string {
+  let leafId = messageId
+  let children = childrenOf(messages, leafId)
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id
+    children = childrenOf(messages, leafId)
+  }
+  return leafId
+}
+
+// First turn to leafId, inclusive. An unknown leaf falls back to the newest message.
+export function activePath(messages: Message[], leafId?: string): Message[] {
+  const byId = new Map(messages.map(message => [message.id, message]))
+  let current: Message | undefined = (leafId ? byId.get(leafId) : undefined) ?? messages[messages.length - 1]
+
+  const path: Message[] = []
+  while (current) {
+    path.push(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path.reverse()
+}
+
+// Position among its siblings of every message on the path that has any
+export function branchPositions(messages: Message[], path: Message[]): Record<string, { index: number; count: number }> {
+  const positions: Record<string, { index: number; count: number }> = {}
+  for (const message of path) {
+    const siblings = siblingsOf(messages, message)
+    if (siblings.length > 1) {
+      positions[message.id] = { index: siblings.indexOf(message), count: siblings.length }
+    }
+  }
+  return positions
+}
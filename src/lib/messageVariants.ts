@@ -0,0 +1,42 @@
+// Alternative answers of an assistant message. The message's own content, citations and model always
+// mirror the active variant, so history, context building and rendering never need to look at variants.
+import type { Message, MessageVariant } from '../types/zaiva'
+
+// Messages saved before regeneration existed have no variants; their content is the only one
+export function variantsOf(message: Message): MessageVariant[] {
+  return message.variants ?? [{
+    content: message.content,
+    groundingCitations: message.groundingCitations,
+    grounded: message.grounded,
+    incomplete: message.incomplete,
+    truncated: message.truncated,
+    model: message.model,
+    generationParams: message.generationParams,
+    createdAt: message.timestamp
+  }]
+}
+
+export function activeVariantIndex(message: Message): number {
+  return message.variants ? Math.min(message.activeVariant ?? 0, message.variants.length - 1) : 0
+}
+
+export function withActiveVariant(message: Message, variants: MessageVariant[], index: number): Message {
+  const variant = variants[index]
+  return {
+    ...message,
+    variants,
+    activeVariant: index,
+    content: variant.content,
+    groundingCitations: variant.groundingCitations,
+    grounded: variant.grounded,
+    incomplete: variant.incomplete,
+    truncated: variant.truncated,
+    model: variant.model,
+    generationParams: variant.generationParams
+  }
+}
+
+export function addVariant(message: Message, variant: MessageVariant): Message {
+  const variants = [...variantsOf(message), variant]
+  return withActiveVariant(message, variants, variants.length - 1)
+}
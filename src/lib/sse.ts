@@ -0,0 +1,31 @@
+// Parses server-sent events ("data: ..." blocks separated by blank lines) and yields each event's data
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      const events = buffer.split(/\r?\n\r?\n/)
+      buffer = done ? '' : events.pop() ?? ''
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('\n')
+        if (data) {
+          yield data
+        }
+      }
+
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
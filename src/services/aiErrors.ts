@@ -0,0 +1,181 @@
+// Error classification and retries for ZAIVA's AI calls
+// Providers throw whatever their backend gives them; classifyError turns that into an AIError with a kind
+import type { AIErrorKind } from '../types/zaiva'
+
+// Worth trying again on their own; the others need the user to change something first
+const TRANSIENT_KINDS: AIErrorKind[] = ['rate_limit', 'network', 'outage']
+
+export class AIError extends Error {
+  kind: AIErrorKind
+  status?: number
+  // Server-requested wait before the next attempt
+  retryAfterMs?: number
+  // The provider's original error
+  cause?: unknown
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message)
+    this.name = 'AIError'
+    this.kind = kind
+    this.status = options.status
+    this.retryAfterMs = options.retryAfterMs
+    this.cause = options.cause
+  }
+
+  get isTransient() {
+    return TRANSIENT_KINDS.includes(this.kind)
+  }
+}
+
+// Shown inline under the failed message: what happened, and what the user can do about it
+export const AI_ERROR_DESCRIPTIONS: Record<AIErrorKind, { title: string; action: string }> = {
+  auth: {
+    title: 'The AI service did not accept our credentials',
+    action: 'Sign in again, or check the API key of the local model in Settings.'
+  },
+  rate_limit: {
+    title: 'Too many requests right now',
+    action: 'Wait a moment, then retry.'
+  },
+  quota: {
+    title: 'The usage quota for this model is used up',
+    action: "Check the provider's billing, or pick another model in Settings."
+  },
+  network: {
+    title: 'Could not reach the AI service',
+    action: 'Check your connection, or the local model server address in Settings, then retry.'
+  },
+  safety: {
+    title: "The answer was blocked by the provider's safety filters",
+    action: 'Rephrase the message and try again.'
+  },
+  invalid_input: {
+    title: 'The request was rejected as invalid',
+    action: 'Shorten the message, or pick another model in Settings.'
+  },
+  outage: {
+    title: 'The AI service is having problems',
+    action: 'Retry in a few minutes, or switch to another model in Settings.'
+  },
+  unknown: {
+    title: 'Something went wrong',
+    action: 'Retry, or check the browser console for details.'
+  }
+}
+
+// Markers providers put in safety refusals; plain words like "blocked" also appear in CORS and key errors
+const SAFETY_PATTERN = /\b(SAFETY|PROHIBITED_CONTENT|content_filter|finishReason|blockReason)\b/
+const QUOTA_PATTERN = /\b(quota|insufficient_quota|billing|credits?|usage limit)\b/i
+const NETWORK_PATTERN = /failed to fetch|networkerror|network error|load failed|econnrefused|timed? ?out/i
+
+// Blink wraps the original failure in details.originalError; the status is usually found there
+function statusOf(error: unknown): number | undefined {
+  let current: any = error
+  for (let depth = 0; current && depth < 4; depth++) {
+    if (typeof current.status === 'number' && current.status > 0) return current.status
+    current = current.details?.originalError ?? current.cause
+  }
+  return undefined
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// The status decides first; the message only says "safety" when there is no status or a plain 400
+function kindFor(status: number | undefined, message: string): AIErrorKind {
+  if ((status === undefined || status === 400) && SAFETY_PATTERN.test(message)) return 'safety'
+  if (status === 401 || status === 403) return 'auth'
+  if (status === 429 || status === 402) return QUOTA_PATTERN.test(message) || status === 402 ? 'quota' : 'rate_limit'
+  if (status === 408) return 'network'
+  if (status !== undefined && status >= 500) return 'outage'
+  if (status !== undefined && status >= 400) return QUOTA_PATTERN.test(message) ? 'quota' : 'invalid_input'
+  if (NETWORK_PATTERN.test(message)) return 'network'
+  return 'unknown'
+}
+
+export function classifyError(error: unknown): AIError {
+  if (error instanceof AIError) return error
+
+  const message = error instanceof Error ? error.message : String(error)
+  const status = statusOf(error)
+  // Whatever the browser reports, an offline device can't have reached the service
+  const kind = typeof navigator !== 'undefined' && !navigator.onLine ? 'network' : kindFor(status, message)
+
+  return new AIError(kind, message, { status, cause: error })
+}
+
+// For providers that call fetch themselves: keeps the status, body and Retry-After of a failed response
+export async function errorFromResponse(response: Response, source: string): Promise<AIError> {
+  const body = await response.text().catch(() => '')
+  console.error(`${source} error response:`, body)
+
+  return new AIError(kindFor(response.status, body), `${source} error: ${response.status} - ${body}`, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+  })
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal
+  maxAttempts?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  // Checked after a failure; return false when retrying would repeat visible side effects
+  canRetry?: () => boolean
+  onRetry?: (error: AIError, attempt: number, delayMs: number) => void
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_BASE_DELAY_MS = 800
+const DEFAULT_MAX_DELAY_MS = 10000
+
+function waitFor(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Runs operation, retrying transient failures with jittered exponential backoff (or the server's Retry-After).
+// Everything it throws is an AIError, except the abort reason when the signal fires.
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    signal,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS
+  } = options
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      if (signal?.aborted) throw error
+
+      const aiError = classifyError(error)
+      const canRetry = aiError.isTransient && attempt < maxAttempts && (options.canRetry?.() ?? true)
+      if (!canRetry) throw aiError
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+      const delayMs = aiError.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2
+      // A Retry-After longer than we are willing to wait means the answer won't come in time
+      if (delayMs > maxDelayMs) throw aiError
+
+      options.onRetry?.(aiError, attempt, delayMs)
+      await waitFor(delayMs, signal)
+    }
+  }
+}
@@ -0,0 +1,81 @@
+// The contract every ZAIVA AI backend implements
+// useAI and useGeminiLive only talk to providers through this interface; see providerRegistry for how one is chosen
+import type { GenerationParams, GroundingCitation, ToolInvocation, ZaivaSettings } from '../types/zaiva'
+import type { ChatMessage } from './conversationContext'
+import type { PlaybackPosition } from './audioPlayback'
+import type { LiveToolRegistry } from './liveTools'
+
+export interface AIResponse {
+  text: string
+  citations?: GroundingCitation[]
+  grounded?: boolean // the answer drew on web search results
+}
+
+export interface TextRequestOptions {
+  systemInstruction?: string
+  history?: ChatMessage[] // earlier turns, oldest first
+  search?: boolean // defaults to true; providers without search ignore it
+  model?: string // catalog id; each provider falls back to its own default
+  params?: Partial<GenerationParams> // providers drop parameters their backend doesn't take
+  signal?: AbortSignal
+}
+
+export type LiveConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
+export interface LiveSessionConfig {
+  // Blink access token for the relay, fetched fresh for every (re)connect
+  getAccessToken: () => Promise<string | null>
+  systemInstruction?: string
+  sessionResumptionHandle?: string
+  // Advertised to the model as function declarations and run locally when called
+  tools?: LiveToolRegistry
+  // Offer web search to the model; on unless explicitly disabled
+  webSearch?: boolean
+  // Catalog id of the live model and the sampling parameters it is set up with
+  model?: string
+  generationParams?: Partial<GenerationParams>
+}
+
+// A real-time audio conversation. Events are delivered through the handler properties.
+export interface LiveSession {
+  readonly state: LiveConnectionState
+  connect(): Promise<void>
+  disconnect(): void
+  // Queued while reconnecting and replayed once the session is back
+  sendTextMessage(text: string): Promise<void>
+  // One frame of 16 kHz Int16 microphone audio
+  sendAudioChunk(pcm: ArrayBuffer): void
+  endAudioStream(): void
+  // Returns how much of the current answer had been heard when playback stopped
+  stopAudioPlayback(): PlaybackPosition
+
+  onTextResponse?: (text: string) => void
+  onCitationsReceived?: (citations: GroundingCitation[]) => void
+  onTurnComplete?: () => void
+  onInterrupted?: () => void
+  onInputTranscription?: (text: string) => void
+  onOutputTranscription?: (text: string) => void
+  onToolCall?: (invocation: ToolInvocation) => void
+  onToolResult?: (invocation: ToolInvocation) => void
+  onToolCancelled?: (id: string) => void
+  onAudioPlaybackStart?: () => void
+  onAudioPlaybackComplete?: () => void
+  onPlaybackPosition?: (position: PlaybackPosition) => void
+  // null: the stored handle was rejected and the session started over without it
+  onSessionResumptionUpdate?: (handle: string | null) => void
+  onConnectionStateChange?: (state: LiveConnectionState) => void
+  onError?: (error: Error) => void
+}
+
+export interface AIProvider {
+  sendTextMessage(content: string, options?: TextRequestOptions): Promise<AIResponse>
+  // Yields text deltas as they arrive and returns the complete response (with citations) at the end
+  streamTextMessage(content: string, options?: TextRequestOptions): AsyncGenerator<string, AIResponse>
+  transcribeAudio(audio: Blob, signal?: AbortSignal): Promise<string>
+  // Resolves to a URL of the spoken audio
+  generateSpeech(text: string, signal?: AbortSignal): Promise<string>
+  // Only providers with a real-time audio API implement this
+  createLiveSession?(config: LiveSessionConfig): LiveSession
+  // Providers that read user settings (e.g. a server address) pick up changes here
+  applySettings?(settings: ZaivaSettings): void
+}
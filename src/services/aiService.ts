@@ -1,117 +1,140 @@
 // AI Service for ZAIVA using Blink Edge Function
 import { blink } from '../blink/client'
-import type { GroundingCitation } from '../types/zaiva'
+import type { AIProvider, AIResponse, LiveSession, LiveSessionConfig, TextRequestOptions } from './aiProvider'
+import { GeminiLiveService } from './geminiLive'
+import { blobToBase64 } from '../lib/encoding'
+import { readServerSentEvents } from '../lib/sse'
+import { AIError, classifyError, errorFromResponse } from './aiErrors'
+import { parseTextResponse, parseTextStreamEvent, type TextRequest, type TextResponse } from './textProtocol'
 
-export interface AIResponse {
-  text: string
-  citations?: GroundingCitation[]
-}
-
-export class AIService {
+// Provider "gemini": text through the gemini-live edge function, real-time audio through its Live API relay.
+// The function answers in its own normalized format, so nothing here depends on Gemini's response shape.
+export class AIService implements AIProvider {
   private functionUrl = 'https://zip87ef6--gemini-live.functions.blink.new'
 
-  async sendTextMessage(content: string, systemInstruction?: string): Promise<AIResponse> {
-    try {
-      console.log('Sending text message to AI service:', { contentLength: content.length })
-      
-      const response = await fetch(this.functionUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-          // Removed Authorization header since function doesn't use JWT verification
-        },
-        body: JSON.stringify({
-          type: 'text',
-          content,
-          systemInstruction
-        })
-      })
+  async sendTextMessage(content: string, options: TextRequestOptions = {}): Promise<AIResponse> {
+    console.log('Sending text message to AI service:', { contentLength: content.length, model: options.model })
 
-      console.log('AI service response status:', response.status)
+    const response = await this.post(this.buildRequest(content, options, false), options.signal)
+    const data = parseTextResponse(await response.json())
+    console.log('AI service response received successfully')
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('AI service error response:', errorText)
-        throw new Error(`AI service error: ${response.status} - ${errorText}`)
-      }
+    return this.toAIResponse(data)
+  }
 
-      const data = await response.json()
-      console.log('AI service response received successfully')
-      
-      if (data.error) {
-        console.error('AI service returned error:', data.error)
-        throw new Error(data.error)
-      }
+  // Yields text deltas from the function's event stream and returns the complete response at the end
+  async *streamTextMessage(content: string, options: TextRequestOptions = {}): AsyncGenerator<string, AIResponse> {
+    console.log('Streaming text message from AI service:', { contentLength: content.length, model: options.model })
 
-      // Extract text from Gemini response
-      const candidate = data.candidates?.[0]
-      const text = candidate?.content?.parts?.[0]?.text || 'Sorry, I could not generate a response.'
-      
-      // Extract citations if available
-      const citations: GroundingCitation[] = []
-      if (candidate?.groundingMetadata?.groundingAttributions) {
-        candidate.groundingMetadata.groundingAttributions.forEach((attr: any) => {
-          if (attr.segment && attr.web) {
-            citations.push({
-              startIndex: attr.segment.startIndex || 0,
-              endIndex: attr.segment.endIndex || 0,
-              uri: attr.web.uri || '',
-              title: attr.web.title || 'Web Source'
-            })
-          }
-        })
+    // Aborting also cancels the body, so the read loop below ends with an AbortError
+    const response = await this.post(this.buildRequest(content, options, true), options.signal)
+    if (!response.body) {
+      throw new Error('AI service returned an empty stream')
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      const event = parseTextStreamEvent(data)
+      if (event.type === 'delta') {
+        yield event.text
+      } else if (event.type === 'done') {
+        console.log('AI service stream completed successfully')
+        return this.toAIResponse(event.response)
+      } else {
+        throw classifyError(new Error(`${event.error}: ${event.details}`))
       }
+    }
 
-      return { text, citations }
-    } catch (error) {
-      console.error('AI Service error:', error)
-      throw error
+    throw new AIError('network', 'AI service stream ended before the answer was complete')
+  }
+
+  private buildRequest(content: string, options: TextRequestOptions, stream: boolean): TextRequest {
+    const { systemInstruction, history, search = true, model, params } = options
+    return {
+      type: 'text',
+      content,
+      history,
+      systemInstruction,
+      model,
+      generationConfig: params,
+      tools: { search },
+      stream
     }
   }
 
-  async transcribeAudio(audioBlob: Blob): Promise<string> {
+  // Offsets of citations already refer to the answer text
+  private toAIResponse(data: TextResponse): AIResponse {
+    if (!data.text && data.finishReason === 'safety') {
+      throw new AIError('safety', 'Gemini blocked the message or its answer')
+    }
+
+    return {
+      text: data.text || 'Sorry, I could not generate a response.',
+      citations: data.citations,
+      grounded: data.citations.length > 0
+    }
+  }
+
+  private async post(body: TextRequest, signal?: AbortSignal): Promise<Response> {
+    const accessToken = await blink.auth.getValidToken()
+    if (!accessToken) {
+      throw new AIError('auth', 'Not signed in')
+    }
+
+    const response = await fetch(this.functionUrl, {
+      signal,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify(body)
+    })
+
+    console.log('AI service response status:', response.status)
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'AI service')
+    }
+
+    return response
+  }
+
+  async transcribeAudio(audioBlob: Blob, signal?: AbortSignal): Promise<string> {
     try {
       // Convert audio to base64 for transcription
-      const base64Audio = await this.blobToBase64(audioBlob)
+      const base64Audio = await blobToBase64(audioBlob)
       
       // Use Blink's AI transcription service
       const result = await blink.ai.transcribeAudio({
         audio: base64Audio,
-        language: 'en'
+        language: 'en',
+        signal
       })
       
       return result.text
     } catch (error) {
       console.error('Transcription error:', error)
-      throw new Error('Failed to transcribe audio')
+      throw classifyError(error)
     }
   }
 
-  async generateSpeech(text: string): Promise<string> {
+  async generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
     try {
       // Use Blink's AI speech generation
       const result = await blink.ai.generateSpeech({
         text,
-        voice: 'nova'
+        voice: 'nova',
+        signal
       })
       
       return result.url
     } catch (error) {
       console.error('Speech generation error:', error)
-      throw new Error('Failed to generate speech')
+      throw classifyError(error)
     }
   }
 
-  private async blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onload = () => {
-        const dataUrl = reader.result as string
-        const base64 = dataUrl.split(',')[1]
-        resolve(base64)
-      }
-      reader.onerror = reject
-      reader.readAsDataURL(blob)
-    })
+  createLiveSession(config: LiveSessionConfig): LiveSession {
+    return new GeminiLiveService(config)
   }
 }
\ No newline at end of file
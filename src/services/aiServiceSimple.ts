@@ -1,98 +1,155 @@
 // Simplified AI Service for ZAIVA using Blink SDK directly
 import { blink } from '../blink/client'
-import type { GroundingCitation } from '../types/zaiva'
+import type { ChatMessage } from './conversationContext'
+import type { AIProvider, AIResponse, TextRequestOptions } from './aiProvider'
+import { expandPromptTemplate } from './promptTemplate'
+import { citationsFromSources } from './citations'
+import { DEFAULT_MODEL_IDS } from './modelCatalog'
+import { blobToBase64 } from '../lib/encoding'
+import { AIError, classifyError } from './aiErrors'
 
-export interface AIResponse {
-  text: string
-  citations?: GroundingCitation[]
-}
+type TextGenerationResponse = Awaited<ReturnType<typeof blink.ai.generateText>>
 
-export class AIServiceSimple {
-  async sendTextMessage(content: string, systemInstruction?: string): Promise<AIResponse> {
+// Provider "blink": text, search, transcription and speech through the Blink AI gateway
+export class AIServiceSimple implements AIProvider {
+  async sendTextMessage(content: string, options: TextRequestOptions = {}): Promise<AIResponse> {
+    const { history = [], search = true, signal } = options
     try {
-      console.log('Sending text message via Blink AI:', { contentLength: content.length })
+      console.log('Sending text message via Blink AI:', { contentLength: content.length, historyLength: history.length, search })
       
-      // Use Blink's built-in AI service with web search
+      // Use Blink's built-in AI service, with web search for grounding when allowed
       const response = await blink.ai.generateText({
-        prompt: content,
-        search: true, // Enable web search for grounding
-        model: 'gpt-4o-mini'
+        messages: this.buildMessages(content, options),
+        search,
+        ...this.modelOptions(options),
+        signal
       })
 
       console.log('Blink AI response received successfully')
-      
-      // Extract citations from sources if available
-      const citations: GroundingCitation[] = []
-      if (response.sources) {
-        response.sources.forEach((source, index) => {
-          citations.push({
-            startIndex: 0, // Blink doesn't provide exact indices
-            endIndex: response.text.length,
-            uri: source.url || '',
-            title: source.title || `Source ${index + 1}`
-          })
-        })
-      }
+      return this.toAIResponse(response)
+    } catch (error) {
+      console.error('Blink AI Service error:', error)
+      throw classifyError(error)
+    }
+  }
+
+  // Yields text deltas as they arrive and returns the complete response (with citations) at the end
+  async *streamTextMessage(content: string, options: TextRequestOptions = {}): AsyncGenerator<string, AIResponse> {
+    const { history = [], search = true, signal } = options
+    console.log('Streaming text message via Blink AI:', { contentLength: content.length, historyLength: history.length, search })
 
-      return { 
-        text: response.text,
-        citations: citations.length > 0 ? citations : undefined
+    // streamText reports chunks through a callback; bridge them into the generator
+    const chunks: string[] = []
+    let notify: (() => void) | null = null
+    let isSettled = false
+
+    const request = blink.ai.streamText({
+      messages: this.buildMessages(content, options),
+      search,
+      ...this.modelOptions(options),
+      signal
+    }, (chunk) => {
+      chunks.push(chunk)
+      notify?.()
+    }).finally(() => {
+      isSettled = true
+      notify?.()
+    })
+
+    try {
+      while (chunks.length > 0 || !isSettled) {
+        if (chunks.length === 0) {
+          await new Promise<void>(resolve => { notify = resolve })
+          notify = null
+          continue
+        }
+        yield chunks.shift()!
       }
+
+      const response = await request
+      console.log('Blink AI stream completed successfully')
+      return this.toAIResponse(response)
     } catch (error) {
-      console.error('Blink AI Service error:', error)
-      throw error
+      console.error('Blink AI stream error:', error)
+      throw classifyError(error)
+    } finally {
+      // The consumer may stop early; don't leave the request's failure unhandled
+      request.catch(() => {})
+    }
+  }
+
+  // The personality goes first as a real system message, with {{variables}} filled in for this request
+  private buildMessages(content: string, { systemInstruction, history = [] }: TextRequestOptions): ChatMessage[] {
+    return [
+      ...(systemInstruction?.trim()
+        ? [{ role: 'system' as const, content: expandPromptTemplate(systemInstruction) }]
+        : []),
+      ...history,
+      { role: 'user', content }
+    ]
+  }
+
+  // Blink takes temperature and a token limit; the other sampling parameters are dropped
+  private modelOptions({ model, params }: TextRequestOptions) {
+    return {
+      model: model ?? DEFAULT_MODEL_IDS.classic,
+      temperature: params?.temperature,
+      maxTokens: params?.maxOutputTokens
+    }
+  }
+
+  private toAIResponse(response: TextGenerationResponse): AIResponse {
+    if (!response.text && response.finishReason === 'content_filter') {
+      throw new AIError('safety', 'The answer was withheld by the content filter')
+    }
+
+    const citations = citationsFromSources(response.sources)
+
+    return { 
+      text: response.text,
+      citations: citations.length > 0 ? citations : undefined,
+      grounded: citations.length > 0
     }
   }
 
-  async transcribeAudio(audioBlob: Blob): Promise<string> {
+  async transcribeAudio(audioBlob: Blob, signal?: AbortSignal): Promise<string> {
     try {
       console.log('Transcribing audio via Blink AI:', { size: audioBlob.size })
       
       // Convert audio to base64 for transcription
-      const base64Audio = await this.blobToBase64(audioBlob)
+      const base64Audio = await blobToBase64(audioBlob)
       
       // Use Blink's AI transcription service
       const result = await blink.ai.transcribeAudio({
         audio: base64Audio,
-        language: 'en'
+        language: 'en',
+        signal
       })
       
       console.log('Audio transcription completed successfully')
       return result.text
     } catch (error) {
       console.error('Transcription error:', error)
-      throw new Error('Failed to transcribe audio')
+      throw classifyError(error)
     }
   }
 
-  async generateSpeech(text: string): Promise<string> {
+  async generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
     try {
       console.log('Generating speech via Blink AI:', { textLength: text.length })
       
       // Use Blink's AI speech generation
       const result = await blink.ai.generateSpeech({
         text,
-        voice: 'nova'
+        voice: 'nova',
+        signal
       })
       
       console.log('Speech generation completed successfully')
       return result.url
     } catch (error) {
       console.error('Speech generation error:', error)
-      throw new Error('Failed to generate speech')
+      throw classifyError(error)
     }
   }
-
-  private async blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      reader.onload = () => {
-        const dataUrl = reader.result as string
-        const base64 = dataUrl.split(',')[1]
-        resolve(base64)
-      }
-      reader.onerror = reject
-      reader.readAsDataURL(blob)
-    })
-  }
 }
\ No newline at end of file
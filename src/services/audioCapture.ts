@@ -0,0 +1,62 @@
+// Real-time microphone capture for ZAIVA
+// Streams 16 kHz Int16 PCM frames from an AudioWorklet while the user is still talking
+
+const WORKLET_URL = '/pcm-capture-worklet.js'
+const FLUSH_TIMEOUT_MS = 250
+
+export const CAPTURE_SAMPLE_RATE = 16000
+
+type WorkletMessage =
+  | { type: 'frame'; pcm: ArrayBuffer }
+  | { type: 'end' }
+
+export class PcmCaptureStream {
+  private node: AudioWorkletNode | null = null
+  private onEnd: (() => void) | null = null
+
+  onFrame?: (pcm: ArrayBuffer) => void
+
+  async start(audioContext: AudioContext, source: AudioNode, frameDurationMs = 40) {
+    await audioContext.audioWorklet.addModule(WORKLET_URL)
+
+    this.node = new AudioWorkletNode(audioContext, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions: {
+        targetSampleRate: CAPTURE_SAMPLE_RATE,
+        frameDurationMs
+      }
+    })
+
+    this.node.port.onmessage = (event: MessageEvent<WorkletMessage>) => {
+      if (event.data.type === 'frame') {
+        this.onFrame?.(event.data.pcm)
+      } else {
+        this.onEnd?.()
+      }
+    }
+
+    source.connect(this.node)
+  }
+
+  // Flushes the partially filled frame so the tail of the utterance is not lost
+  async stop(): Promise<void> {
+    const node = this.node
+    if (!node) return
+    this.node = null
+
+    await new Promise<void>(resolve => {
+      const timeout = setTimeout(resolve, FLUSH_TIMEOUT_MS)
+      this.onEnd = () => {
+        clearTimeout(timeout)
+        resolve()
+      }
+      node.port.postMessage({ type: 'flush' })
+    })
+
+    this.onEnd = null
+    node.port.onmessage = null
+    node.disconnect()
+  }
+}
@@ -0,0 +1,260 @@
+// Gapless playback of streamed assistant audio for ZAIVA
+// Chunks are placed back to back on the AudioContext clock rather than started from onended callbacks
+
+export const PLAYBACK_SAMPLE_RATE = 24000
+
+export interface PlaybackPosition {
+  playedMs: number // audio of the current answer that has already reached the speakers
+  receivedMs: number // audio of the current answer received so far
+  isComplete: boolean // the answer has finished arriving, so receivedMs is its full length
+}
+
+// Adjacent chunks overlap by this much and are crossfaded to hide boundary discontinuities
+const CROSSFADE_SECONDS = 0.004
+// Audio held back before playback starts; grows with network jitter and after underruns
+const MIN_BUFFER_MS = 60
+const MAX_BUFFER_MS = 500
+const UNDERRUN_PENALTY_MS = 40
+// Lead time so the first chunk isn't scheduled in the past
+const SCHEDULE_LEAD_SECONDS = 0.01
+const POSITION_INTERVAL_MS = 100
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode
+  gain: GainNode
+  startTime: number
+  duration: number
+}
+
+// Int16 little-endian PCM -> Float32 in [-1, 1)
+function int16ToFloat32(pcm: ArrayBuffer): Float32Array {
+  const int16 = new Int16Array(pcm, 0, pcm.byteLength >> 1)
+  const samples = new Float32Array(int16.length)
+  for (let i = 0; i < int16.length; i++) {
+    samples[i] = int16[i] / 32768
+  }
+  return samples
+}
+
+export class PcmPlaybackScheduler {
+  private audioContext: AudioContext | null = null
+  private scheduled: ScheduledChunk[] = []
+  // Chunks waiting for the jitter buffer to fill
+  private pending: Float32Array[] = []
+  private pendingMs = 0
+  private nextStartTime = 0
+  private playedSeconds = 0
+  private receivedSeconds = 0
+  private isActive = false
+  private isTurnComplete = false
+  // Late-arrival estimate (RFC 3550 style smoothing) and the penalty accumulated from underruns
+  private jitterMs = 0
+  private underrunPenaltyMs = 0
+  private lastArrival: number | null = null
+  private lastChunkMs = 0
+  private startTimer: ReturnType<typeof setTimeout> | null = null
+  private positionTimer: ReturnType<typeof setInterval> | null = null
+
+  onStart?: () => void
+  onEnd?: () => void
+  onPosition?: (position: PlaybackPosition) => void
+
+  get bufferMs() {
+    return Math.min(MAX_BUFFER_MS, MIN_BUFFER_MS + 2 * this.jitterMs + this.underrunPenaltyMs)
+  }
+
+  get position(): PlaybackPosition {
+    const now = this.audioContext?.currentTime ?? 0
+    const playing = this.scheduled.reduce(
+      (total, chunk) => total + Math.min(Math.max(now - chunk.startTime, 0), chunk.duration),
+      0
+    )
+
+    return {
+      playedMs: (this.playedSeconds + playing) * 1000,
+      receivedMs: this.receivedSeconds * 1000,
+      isComplete: this.isTurnComplete
+    }
+  }
+
+  enqueue(pcm: ArrayBuffer) {
+    const samples = int16ToFloat32(pcm)
+    if (samples.length === 0) return
+
+    const chunkMs = (samples.length / PLAYBACK_SAMPLE_RATE) * 1000
+    if (!this.isActive) {
+      this.beginAnswer()
+    }
+    this.trackArrival(chunkMs)
+    this.receivedSeconds += chunkMs / 1000
+
+    // Already playing: keep the timeline fed directly
+    if (this.scheduled.length > 0) {
+      this.schedule(samples)
+      return
+    }
+
+    this.pending.push(samples)
+    this.pendingMs += chunkMs
+    if (this.pendingMs >= this.bufferMs) {
+      this.flushPending()
+    } else if (!this.startTimer) {
+      // Short answers may never fill the buffer; start anyway once it has had its chance
+      this.startTimer = setTimeout(() => this.flushPending(), this.bufferMs)
+    }
+  }
+
+  // No more audio will arrive for the current answer
+  finishTurn() {
+    this.isTurnComplete = true
+    if (!this.isActive) return
+
+    this.flushPending()
+    if (this.scheduled.length === 0) {
+      this.endAnswer()
+    }
+  }
+
+  // Silences playback immediately and discards everything queued; returns where playback stopped
+  stop(): PlaybackPosition {
+    const position = this.position
+    this.clearStartTimer()
+
+    this.scheduled.forEach(({ source, gain }) => {
+      source.onended = null
+      try {
+        source.stop()
+      } catch {
+        // Not started yet
+      }
+      gain.disconnect()
+    })
+    this.scheduled = []
+    this.pending = []
+    this.pendingMs = 0
+    // The cancelled answer's timeline may reach well past now; the next one starts fresh
+    this.nextStartTime = 0
+
+    if (this.isActive) {
+      this.endAnswer()
+    }
+    return position
+  }
+
+  close() {
+    this.stop()
+    if (this.audioContext) {
+      this.audioContext.close()
+      this.audioContext = null
+    }
+  }
+
+  private beginAnswer() {
+    this.isActive = true
+    this.isTurnComplete = false
+    this.playedSeconds = 0
+    this.receivedSeconds = 0
+    this.nextStartTime = 0
+    // The pause between answers says nothing about network jitter
+    this.lastArrival = null
+    this.onStart?.()
+
+    this.positionTimer = setInterval(() => this.onPosition?.(this.position), POSITION_INTERVAL_MS)
+  }
+
+  private endAnswer() {
+    this.isActive = false
+    if (this.positionTimer) {
+      clearInterval(this.positionTimer)
+      this.positionTimer = null
+    }
+    this.onPosition?.(this.position)
+    this.onEnd?.()
+  }
+
+  private trackArrival(chunkMs: number) {
+    const now = performance.now()
+    if (this.lastArrival !== null) {
+      // Chunks usually arrive faster than real time; only lateness threatens playback
+      const lateness = Math.max(0, now - this.lastArrival - this.lastChunkMs)
+      this.jitterMs += (lateness - this.jitterMs) / 16
+    }
+    this.lastArrival = now
+    this.lastChunkMs = chunkMs
+  }
+
+  private flushPending() {
+    this.clearStartTimer()
+    const pending = this.pending
+    this.pending = []
+    this.pendingMs = 0
+    pending.forEach(samples => this.schedule(samples))
+  }
+
+  private clearStartTimer() {
+    if (this.startTimer) {
+      clearTimeout(this.startTimer)
+      this.startTimer = null
+    }
+  }
+
+  private schedule(samples: Float32Array) {
+    const context = this.ensureContext()
+    const buffer = context.createBuffer(1, samples.length, PLAYBACK_SAMPLE_RATE)
+    buffer.copyToChannel(samples, 0)
+
+    const fade = Math.min(CROSSFADE_SECONDS, buffer.duration / 2)
+    const previous = this.scheduled[this.scheduled.length - 1]
+    let startTime: number
+
+    if (previous && this.nextStartTime - fade > context.currentTime) {
+      // Overlap the tail of the previous chunk and fade it out as this one fades in
+      startTime = this.nextStartTime - fade
+      previous.gain.gain.setValueAtTime(1, startTime)
+      previous.gain.gain.linearRampToValueAtTime(0, this.nextStartTime)
+    } else {
+      startTime = Math.max(context.currentTime + SCHEDULE_LEAD_SECONDS, this.nextStartTime)
+    }
+
+    const gain = context.createGain()
+    gain.gain.setValueAtTime(0, startTime)
+    gain.gain.linearRampToValueAtTime(1, startTime + fade)
+    gain.connect(context.destination)
+
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    source.connect(gain)
+
+    const chunk: ScheduledChunk = { source, gain, startTime, duration: buffer.duration }
+    source.onended = () => this.handleChunkEnded(chunk)
+    source.start(startTime)
+
+    this.scheduled.push(chunk)
+    this.nextStartTime = startTime + buffer.duration
+  }
+
+  private handleChunkEnded(chunk: ScheduledChunk) {
+    this.scheduled = this.scheduled.filter(scheduled => scheduled !== chunk)
+    this.playedSeconds += chunk.duration
+    chunk.gain.disconnect()
+
+    if (this.scheduled.length > 0) return
+
+    if (this.isTurnComplete && this.pending.length === 0) {
+      this.endAnswer()
+    } else if (!this.isTurnComplete) {
+      // Ran dry mid-answer: buffer a little more from now on
+      this.underrunPenaltyMs = Math.min(MAX_BUFFER_MS, this.underrunPenaltyMs + UNDERRUN_PENALTY_MS)
+    }
+  }
+
+  private ensureContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext({ sampleRate: PLAYBACK_SAMPLE_RATE })
+    }
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume()
+    }
+    return this.audioContext
+  }
+}
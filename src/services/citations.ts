@@ -0,0 +1,76 @@
+// Citation extraction shared by ZAIVA's AI services
+import type { GroundingCitation } from '../types/zaiva'
+
+// Structural view of the parts of Gemini Live's groundingMetadata that name sources
+export interface GeminiGroundingMetadata {
+  groundingChunks?: Array<{ web?: { uri?: string; title?: string } }>
+  groundingSupports?: Array<{ groundingChunkIndices?: number[] }>
+  // Older responses attribute segments directly instead of through chunks
+  groundingAttributions?: Array<{ web?: { uri?: string; title?: string } }>
+}
+
+export interface CitationSource {
+  uri: string
+  title: string
+}
+
+// Sources of Gemini Live's groundingMetadata, in the order they are cited, without positions.
+// Text answers get positioned citations from the gemini-live function instead.
+export function extractGroundingCitations(metadata: GeminiGroundingMetadata | undefined): GroundingCitation[] {
+  if (!metadata) return []
+
+  const citations: GroundingCitation[] = []
+  const chunks = metadata.groundingChunks ?? []
+  const citedChunks = new Set<number>()
+
+  metadata.groundingSupports?.forEach(support => {
+    support.groundingChunkIndices?.forEach(chunkIndex => {
+      const web = chunks[chunkIndex]?.web
+      if (!web?.uri || citedChunks.has(chunkIndex)) return
+      citedChunks.add(chunkIndex)
+      citations.push({ uri: web.uri, title: web.title || 'Web Source' })
+    })
+  })
+
+  // Sources the model consulted without tying them to a particular sentence
+  chunks.forEach((chunk, chunkIndex) => {
+    if (citedChunks.has(chunkIndex) || !chunk.web?.uri) return
+    citations.push({ uri: chunk.web.uri, title: chunk.web.title || 'Web Source' })
+  })
+
+  metadata.groundingAttributions?.forEach(attribution => {
+    if (!attribution.web?.uri) return
+    citations.push({ uri: attribution.web.uri, title: attribution.web.title || 'Web Source' })
+  })
+
+  return citations
+}
+
+// Blink search results come as a flat source list with no positions in the answer
+export function citationsFromSources(sources: Array<{ url?: string; title?: string }> | undefined): GroundingCitation[] {
+  return (sources ?? [])
+    .filter(source => source.url)
+    .map((source, index) => ({
+      uri: source.url!,
+      title: source.title || `Source ${index + 1}`
+    }))
+}
+
+// One entry per distinct URI, in order of first appearance; a citation's marker number is its position here + 1
+export function uniqueSources(citations: GroundingCitation[]): CitationSource[] {
+  const seen = new Map<string, CitationSource>()
+  citations.forEach(({ uri, title }) => {
+    if (!seen.has(uri)) seen.set(uri, { uri, title })
+  })
+  return Array.from(seen.values())
+}
+
+export function sourceDomain(source: CitationSource): string {
+  try {
+    const host = new URL(source.uri).hostname.replace(/^www\./, '')
+    // Gemini hands out redirect links; its titles carry the real domain
+    return host.endsWith('vertexaisearch.cloud.google.com') ? source.title : host
+  } catch {
+    return source.title
+  }
+}
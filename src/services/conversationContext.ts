@@ -0,0 +1,139 @@
+// Conversation history for ZAIVA text requests
+// Recent turns are sent verbatim; older ones are folded into a running summary once the budget is exceeded
+import type { Message } from '../types/zaiva'
+import type { AIProvider } from './aiProvider'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export type Summarizer = (messages: ChatMessage[], previousSummary?: string, signal?: AbortSignal) => Promise<string>
+
+// Rough budgets in tokens; ~4 characters per token is close enough for English chat
+const HISTORY_TOKEN_BUDGET = 6000
+const SUMMARY_INPUT_TOKEN_LIMIT = 24000
+const MESSAGE_OVERHEAD_TOKENS = 4
+// Many short turns fit the token budget but not every backend: the gemini-live function accepts at most
+// 200 history messages. Turns past this count are summarized like those past the budget.
+const HISTORY_MESSAGE_LIMIT = 100
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4) + MESSAGE_OVERHEAD_TOKENS
+}
+
+const SUMMARY_INSTRUCTION = 'Summarize the conversation between the user and ZAIVA for use as memory in later turns. ' +
+  'Keep facts, decisions, names, preferences and open questions. Write at most 200 words, in the third person.'
+
+// Condenses older turns with the given provider so they still fit in the context window
+export function createSummarizer(provider: AIProvider, model?: string): Summarizer {
+  return async (messages, previousSummary, signal) => {
+    const transcript = messages
+      .map(message => `${message.role === 'user' ? 'User' : 'ZAIVA'}: ${message.content}`)
+      .join('\n')
+
+    const response = await provider.sendTextMessage(
+      previousSummary
+        ? `Existing summary:\n${previousSummary}\n\nConversation since then:\n${transcript}`
+        : transcript,
+      {
+        systemInstruction: SUMMARY_INSTRUCTION,
+        search: false,
+        model,
+        params: { maxOutputTokens: 400 },
+        signal
+      }
+    )
+
+    return response.text.trim()
+  }
+}
+
+interface CachedSummary {
+  throughMessageId: string
+  text: string
+}
+
+export class ConversationContextBuilder {
+  private budget: number
+  // Latest summary per conversation, extended incrementally as more turns fall out of the window
+  private summaries = new Map<string, CachedSummary>()
+
+  constructor(budget = HISTORY_TOKEN_BUDGET) {
+    this.budget = budget
+  }
+
+  // summarize condenses whatever doesn't fit; pass one backed by the provider the request goes to
+  async build(history: Message[], summarize: Summarizer, signal?: AbortSignal): Promise<ChatMessage[]> {
+    // Tool rows and empty placeholders are transcript decoration, not dialogue
+    const turns = history.filter(message =>
+      (message.role === 'user' || message.role === 'assistant') && message.content.trim()
+    )
+    if (turns.length === 0) return []
+
+    let used = 0
+    let splitIndex = turns.length
+    while (splitIndex > 0 && turns.length - splitIndex < HISTORY_MESSAGE_LIMIT) {
+      const cost = estimateTokens(turns[splitIndex - 1].content)
+      if (used + cost > this.budget) break
+      used += cost
+      splitIndex--
+    }
+
+    const recent = turns.slice(splitIndex).map(toChatMessage)
+    const older = turns.slice(0, splitIndex)
+    if (older.length === 0) return recent
+
+    const summary = await this.summarizeOlder(older, summarize, signal)
+    if (!summary) return recent
+
+    return [
+      { role: 'system', content: `Summary of the earlier part of this conversation:\n${summary}` },
+      ...recent
+    ]
+  }
+
+  private async summarizeOlder(older: Message[], summarize: Summarizer, signal?: AbortSignal): Promise<string | null> {
+    const conversationId = older[0].conversationId
+    const lastId = older[older.length - 1].id
+    const cached = this.summaries.get(conversationId)
+
+    if (cached?.throughMessageId === lastId) {
+      return cached.text
+    }
+
+    // Only turns the cached summary hasn't seen need to go through the model again
+    const cachedIndex = cached ? older.findIndex(message => message.id === cached.throughMessageId) : -1
+    const previousSummary = cachedIndex >= 0 ? cached?.text : undefined
+    const unsummarized = withinTokenLimit(older.slice(cachedIndex + 1), SUMMARY_INPUT_TOKEN_LIMIT)
+
+    try {
+      const text = await summarize(unsummarized.map(toChatMessage), previousSummary, signal)
+      this.summaries.set(conversationId, { throughMessageId: lastId, text })
+      return text
+    } catch (error) {
+      if (signal?.aborted) throw error
+      // Without a summary the model just sees the recent window, which beats failing the request
+      console.warn('Failed to summarize earlier conversation:', error)
+      return previousSummary ?? null
+    }
+  }
+}
+
+function toChatMessage(message: Message): ChatMessage {
+  return {
+    role: message.role === 'user' ? 'user' : 'assistant',
+    content: message.content
+  }
+}
+
+// Keeps the newest messages that fit in the limit
+function withinTokenLimit(messages: Message[], limit: number) {
+  let used = 0
+  let start = messages.length
+  while (start > 0 && used + estimateTokens(messages[start - 1].content) <= limit) {
+    used += estimateTokens(messages[start - 1].content)
+    start--
+  }
+  return messages.slice(start)
+}
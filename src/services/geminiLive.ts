@@ -1,228 +1,438 @@
 // Gemini Live API Service for ZAIVA
-import type { Message, GroundingCitation } from '../types/zaiva'
-
-export interface GeminiLiveConfig {
-  apiKey: string
-  systemInstruction?: string
-  sessionResumptionHandle?: string
+import { CAPTURE_SAMPLE_RATE } from './audioCapture'
+import { PcmPlaybackScheduler, type PlaybackPosition } from './audioPlayback'
+import {
+  parseServerMessage,
+  type ClientMessage,
+  type ClientContentMessage,
+  type FunctionCall,
+  type RealtimeInputMessage,
+  type ServerContent,
+  type ServerMessage,
+  type SetupMessage,
+  type ToolResponseMessage,
+  type UsageMetadata
+} from './liveProtocol'
+import { expandPromptTemplate } from './promptTemplate'
+import { extractGroundingCitations } from './citations'
+import { DEFAULT_MODEL_IDS } from './modelCatalog'
+import type { LiveConnectionState, LiveSession, LiveSessionConfig } from './aiProvider'
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../lib/encoding'
+import type { Message, GroundingCitation, ToolInvocation } from '../types/zaiva'
+
+// The gemini-live edge function relays the Live API and adds the Gemini key server-side
+const LIVE_RELAY_URL = 'wss://zip87ef6--gemini-live.functions.blink.new'
+
+export interface GeminiLiveConfig extends LiveSessionConfig {
+  relayUrl?: string
 }
 
-export interface GeminiMessage {
-  role: 'user' | 'assistant'
-  content: string
-  audioData?: ArrayBuffer
-  groundingCitations?: GroundingCitation[]
-}
+// Jittered exponential backoff for dropped connections
+const RECONNECT_BASE_DELAY_MS = 500
+const RECONNECT_MAX_DELAY_MS = 30000
+const MAX_RECONNECT_ATTEMPTS = 8
 
-export class GeminiLiveService {
+export class GeminiLiveService implements LiveSession {
   private ws: WebSocket | null = null
   private config: GeminiLiveConfig
   private isConnected = false
-  private messageQueue: any[] = []
-  private audioContext: AudioContext | null = null
-  private audioQueue: AudioBuffer[] = []
-  private isPlaying = false
-  private currentSource: AudioBufferSourceNode | null = null
+  private isSetupComplete = false
+  private isClosedByClient = false
+  private connectionState: LiveConnectionState = 'disconnected'
+  private reconnectAttempts = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  // Outgoing turns buffered while the socket is down, replayed in order after setup
+  private messageQueue: ClientMessage[] = []
+  private playback = new PcmPlaybackScheduler()
+  // An answer is on its way: a user turn was sent, or audio is still arriving, and the server hasn't ended it
+  private isReceivingAnswer = false
+  // The user stopped that answer locally; the rest of its audio must not restart playback
+  private isDiscardingAnswer = false
+  // Tool calls still running, keyed by call id so the server can cancel them
+  private pendingToolCalls = new Map<string, AbortController>()
 
   constructor(config: GeminiLiveConfig) {
-    this.config = config
+    this.config = { ...config }
+
+    this.playback.onStart = () => this.onAudioPlaybackStart?.()
+    this.playback.onEnd = () => this.onAudioPlaybackComplete?.()
+    this.playback.onPosition = (position) => this.onPlaybackPosition?.(position)
+  }
+
+  get state(): LiveConnectionState {
+    return this.connectionState
   }
 
   async connect(): Promise<void> {
+    this.isClosedByClient = false
+    this.setConnectionState('connecting')
+
     return new Promise((resolve, reject) => {
-      try {
-        const wsUrl = `wss://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:streamGenerateContent?key=${this.config.apiKey}`
-        this.ws = new WebSocket(wsUrl)
-
-        this.ws.onopen = () => {
-          console.log('Connected to Gemini Live API')
-          this.isConnected = true
-          this.sendSetupMessage()
-          resolve()
-        }
+      this.openSocket(resolve, reject).catch(error => {
+        this.setConnectionState('disconnected')
+        reject(error)
+      })
+    })
+  }
 
-        this.ws.onmessage = (event) => {
-          this.handleMessage(event.data)
-        }
+  private async openSocket(onOpen?: () => void, onFailure?: (error: unknown) => void) {
+    const accessToken = await this.config.getAccessToken()
+    if (!accessToken) {
+      throw new Error('Not signed in')
+    }
+    if (this.isClosedByClient) {
+      onFailure?.(new Error('Connection cancelled'))
+      return
+    }
 
-        this.ws.onerror = (error) => {
-          console.error('WebSocket error:', error)
-          reject(error)
-        }
+    const relayUrl = this.config.relayUrl ?? LIVE_RELAY_URL
+    const ws = new WebSocket(`${relayUrl}?access_token=${encodeURIComponent(accessToken)}`)
+    this.ws = ws
+    this.isSetupComplete = false
+    let hasOpened = false
+
+    ws.onopen = () => {
+      hasOpened = true
+      console.log('Connected to Gemini Live API')
+      this.isConnected = true
+      this.sendSetupMessage()
+      onOpen?.()
+    }
 
-        this.ws.onclose = () => {
-          console.log('Disconnected from Gemini Live API')
-          this.isConnected = false
-        }
-      } catch (error) {
-        reject(error)
+    ws.onmessage = (event) => {
+      if (ws !== this.ws) return
+      this.handleMessage(event.data)
+    }
+
+    ws.onerror = (error) => {
+      console.error('WebSocket error:', error)
+      if (!hasOpened) onFailure?.(error)
+    }
+
+    ws.onclose = (event) => {
+      // A socket we already replaced (e.g. after goAway) closing is expected
+      if (ws !== this.ws) return
+
+      console.log('Disconnected from Gemini Live API', { code: event.code, reason: event.reason })
+      // A session that ends before setup completes while resuming most likely had an expired or
+      // rejected handle; retrying with it would fail every time, so start a fresh session instead
+      if (hasOpened && !this.isSetupComplete && this.config.sessionResumptionHandle) {
+        console.warn('Live session could not be resumed; starting a new one')
+        this.config.sessionResumptionHandle = undefined
+        this.onSessionResumptionUpdate?.(null)
+      }
+      this.isConnected = false
+      this.isSetupComplete = false
+      this.ws = null
+      this.cancelAllToolCalls()
+      this.endServerTurn()
+      this.playback.finishTurn()
+
+      if (this.isClosedByClient) {
+        this.setConnectionState('disconnected')
+        return
       }
+
+      // Failures before the first open are reported through connect() instead
+      if (!hasOpened && this.connectionState === 'connecting') {
+        this.setConnectionState('disconnected')
+        onFailure?.(new Error(`Connection closed (${event.code})`))
+        return
+      }
+
+      this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.setConnectionState('disconnected')
+      this.messageQueue = []
+      this.onError?.(new Error('Lost connection to Gemini Live API'))
+      return
+    }
+
+    const exponential = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts)
+    const delay = exponential / 2 + Math.random() * (exponential / 2)
+    this.reconnectAttempts++
+    this.setConnectionState('reconnecting')
+
+    console.log(`Reconnecting to Gemini Live API in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts})`)
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.openSocket().catch(error => {
+        console.error('Reconnect failed:', error)
+        this.scheduleReconnect()
+      })
+    }, delay)
+  }
+
+  // The server announced it will close this connection soon: move to a fresh one now,
+  // resuming from the latest handle so the conversation context carries over
+  private handleGoAway(timeLeft?: string) {
+    console.log('Gemini Live goAway received', { timeLeft })
+    const previous = this.ws
+    this.isConnected = false
+    this.setConnectionState('reconnecting')
+    this.ws = null
+    this.cancelAllToolCalls()
+    previous?.close(1000, 'goAway')
+    this.openSocket().catch(error => {
+      console.error('Reconnect after goAway failed:', error)
+      this.scheduleReconnect()
     })
   }
 
+  private setConnectionState(state: LiveConnectionState) {
+    if (this.connectionState === state) return
+    this.connectionState = state
+    this.onConnectionStateChange?.(state)
+  }
+
+  private sendOrQueue(message: ClientMessage) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN && this.isSetupComplete) {
+      this.ws.send(JSON.stringify(message))
+    } else {
+      this.messageQueue.push(message)
+    }
+  }
+
+  private flushMessageQueue() {
+    const queued = this.messageQueue
+    this.messageQueue = []
+    queued.forEach(message => this.sendOrQueue(message))
+  }
+
   private sendSetupMessage() {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return
 
-    const setupMessage = {
+    const setupMessage: SetupMessage = {
       setup: {
-        model: "models/gemini-2.0-flash-exp",
-        generation_config: {
-          response_modalities: ["AUDIO", "TEXT"],
-          speech_config: {
-            voice_config: {
-              prebuilt_voice_config: {
-                voice_name: "Aoede"
+        model: `models/${this.config.model ?? DEFAULT_MODEL_IDS.live}`,
+        generationConfig: {
+          ...this.config.generationParams,
+          responseModalities: ["AUDIO", "TEXT"],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: {
+                voiceName: "Aoede"
               }
             }
           }
         },
-        system_instruction: {
+        systemInstruction: {
           parts: [{
-            text: this.config.systemInstruction || `You are ZAIVA, a sophisticated AI assistant created specifically for Lukas Rejchrt. You are helpful, intelligent, and have a warm, professional personality. You can search the web for current information when needed. Keep responses conversational and natural.`
+            text: this.config.systemInstruction
+              ? expandPromptTemplate(this.config.systemInstruction)
+              : `You are ZAIVA, a sophisticated AI assistant created specifically for Lukas Rejchrt. You are helpful, intelligent, and have a warm, professional personality. You can search the web for current information when needed. Keep responses conversational and natural.`
           }]
         },
-        tools: [{
-          google_search: {}
-        }]
+        tools: this.buildToolsConfig(),
+        // Transcribe both sides of spoken turns so they can be saved as text messages
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Ask the server for resumption handles; pass the stored one to continue that session
+        sessionResumption: this.config.sessionResumptionHandle
+          ? { handle: this.config.sessionResumptionHandle }
+          : {}
       }
     }
 
     this.ws.send(JSON.stringify(setupMessage))
   }
 
-  private async handleMessage(data: string) {
+  private async handleMessage(data: string | Blob) {
+    let message: ServerMessage
+    try {
+      message = parseServerMessage(typeof data === 'string' ? data : await data.text())
+    } catch (error) {
+      console.error('Invalid Live API message:', error)
+      this.onError?.(error instanceof Error ? error : new Error('Invalid Live API message'))
+      return
+    }
+
     try {
-      const message = JSON.parse(data)
-      
       if (message.serverContent) {
-        await this.handleServerContent(message.serverContent)
+        this.handleServerContent(message.serverContent)
       }
       
       if (message.setupComplete) {
         console.log('Gemini Live setup complete')
+        this.isSetupComplete = true
+        this.reconnectAttempts = 0
+        this.setConnectionState('connected')
+        this.flushMessageQueue()
+      }
+
+      if (message.toolCall) {
+        message.toolCall.functionCalls.forEach(call => this.runToolCall(call))
+      }
+
+      if (message.toolCallCancellation) {
+        this.cancelToolCalls(message.toolCallCancellation.ids)
+      }
+
+      if (message.goAway) {
+        this.handleGoAway(message.goAway.timeLeft)
+      }
+
+      if (message.usageMetadata) {
+        this.onUsageMetadata?.(message.usageMetadata)
+      }
+
+      if (message.sessionResumptionUpdate) {
+        const { newHandle, resumable } = message.sessionResumptionUpdate
+        if (resumable && newHandle) {
+          this.config.sessionResumptionHandle = newHandle
+          this.onSessionResumptionUpdate?.(newHandle)
+        }
       }
     } catch (error) {
       console.error('Error handling message:', error)
+      this.onError?.(error instanceof Error ? error : new Error('Failed to handle Live API message'))
+    }
+  }
+
+  private buildToolsConfig(): Array<Record<string, unknown>> {
+    const tools: Array<Record<string, unknown>> = this.config.webSearch === false ? [] : [{ googleSearch: {} }]
+    const declarations = this.config.tools?.declarations ?? []
+    if (declarations.length > 0) {
+      tools.push({ functionDeclarations: declarations })
     }
+    return tools
   }
 
-  private async handleServerContent(content: any) {
+  private async runToolCall(call: FunctionCall) {
+    const controller = new AbortController()
+    this.pendingToolCalls.set(call.id, controller)
+
+    const invocation: ToolInvocation = {
+      id: call.id,
+      name: call.name,
+      args: call.args ?? {},
+      status: 'running'
+    }
+    this.onToolCall?.(invocation)
+
+    let response: Record<string, unknown>
+    try {
+      if (!this.config.tools?.has(call.name)) {
+        throw new Error(`Unknown tool "${call.name}"`)
+      }
+      const result = await this.config.tools.invoke(call.name, invocation.args, controller.signal)
+      if (controller.signal.aborted) return
+      response = { output: result }
+      this.onToolResult?.({ ...invocation, status: 'completed', result })
+    } catch (error) {
+      if (controller.signal.aborted) return
+      const message = error instanceof Error ? error.message : 'Tool failed'
+      // The model gets the failure as a normal response so it can explain or try something else
+      response = { error: message }
+      this.onToolResult?.({ ...invocation, status: 'failed', error: message })
+    } finally {
+      if (this.pendingToolCalls.get(call.id) === controller) {
+        this.pendingToolCalls.delete(call.id)
+      }
+    }
+
+    // Responses belong to the session that asked; a replacement session would reject them
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.isSetupComplete) return
+
+    const message: ToolResponseMessage = {
+      toolResponse: {
+        functionResponses: [{ id: call.id, name: call.name, response }]
+      }
+    }
+    this.ws.send(JSON.stringify(message))
+  }
+
+  private cancelToolCalls(ids: string[]) {
+    ids.forEach(id => {
+      const controller = this.pendingToolCalls.get(id)
+      if (!controller) return
+
+      controller.abort()
+      this.pendingToolCalls.delete(id)
+      this.onToolCancelled?.(id)
+    })
+  }
+
+  // Calls die with the session that made them
+  private cancelAllToolCalls() {
+    this.cancelToolCalls(Array.from(this.pendingToolCalls.keys()))
+  }
+
+  private handleServerContent(content: ServerContent) {
+    // The user started talking over the model: drop whatever audio is still scheduled
+    if (content.interrupted) {
+      this.playback.stop()
+      this.endServerTurn()
+      this.onInterrupted?.()
+    }
+
+    if (content.inputTranscription?.text) {
+      this.onInputTranscription?.(content.inputTranscription.text)
+    }
+
+    if (content.outputTranscription?.text) {
+      this.onOutputTranscription?.(content.outputTranscription.text)
+    }
+
     if (content.modelTurn) {
-      const parts = content.modelTurn.parts || []
-      
-      for (const part of parts) {
+      for (const part of content.modelTurn.parts) {
         if (part.text) {
           this.onTextResponse?.(part.text)
         }
         
-        if (part.inlineData && part.inlineData.mimeType === 'audio/pcm') {
-          await this.handleAudioResponse(part.inlineData.data)
+        // The server labels audio as e.g. "audio/pcm;rate=24000"
+        if (part.inlineData && part.inlineData.mimeType.startsWith('audio/pcm')) {
+          this.handleAudioResponse(part.inlineData.data)
         }
       }
 
       // Handle grounding metadata
       if (content.groundingMetadata) {
-        const citations = this.extractCitations(content.groundingMetadata)
+        // Offsets would refer to model text the spoken transcript doesn't match, so keep only the sources
+        const citations = extractGroundingCitations(content.groundingMetadata)
         this.onCitationsReceived?.(citations)
       }
     }
 
-    if (content.turnComplete) {
-      this.onTurnComplete?.()
+    // Lets the scheduler play out its jitter buffer instead of waiting for more audio
+    if (content.generationComplete || content.turnComplete) {
+      this.isReceivingAnswer = false
+      this.playback.finishTurn()
     }
-  }
 
-  private extractCitations(groundingMetadata: any): GroundingCitation[] {
-    const citations: GroundingCitation[] = []
-    
-    if (groundingMetadata.groundingAttributions) {
-      groundingMetadata.groundingAttributions.forEach((attr: any) => {
-        if (attr.segment && attr.web) {
-          citations.push({
-            startIndex: attr.segment.startIndex || 0,
-            endIndex: attr.segment.endIndex || 0,
-            uri: attr.web.uri || '',
-            title: attr.web.title || 'Web Source'
-          })
-        }
-      })
+    if (content.turnComplete) {
+      this.endServerTurn()
+      this.onTurnComplete?.()
     }
-    
-    return citations
   }
 
-  private async handleAudioResponse(audioData: string) {
-    try {
-      if (!this.audioContext) {
-        this.audioContext = new AudioContext({ sampleRate: 24000 })
-      }
-
-      // Decode base64 audio data
-      const binaryData = atob(audioData)
-      const arrayBuffer = new ArrayBuffer(binaryData.length)
-      const uint8Array = new Uint8Array(arrayBuffer)
-      
-      for (let i = 0; i < binaryData.length; i++) {
-        uint8Array[i] = binaryData.charCodeAt(i)
-      }
-
-      // Convert PCM data to AudioBuffer
-      const audioBuffer = await this.pcmToAudioBuffer(arrayBuffer)
-      this.audioQueue.push(audioBuffer)
-      
-      if (!this.isPlaying) {
-        this.playNextAudio()
-      }
-    } catch (error) {
-      console.error('Error handling audio response:', error)
-    }
+  private handleAudioResponse(audioData: string) {
+    if (this.isDiscardingAnswer) return
+    this.isReceivingAnswer = true
+    this.playback.enqueue(base64ToArrayBuffer(audioData))
   }
 
-  private async pcmToAudioBuffer(pcmData: ArrayBuffer): Promise<AudioBuffer> {
-    if (!this.audioContext) throw new Error('Audio context not initialized')
-    
-    const int16Array = new Int16Array(pcmData)
-    const audioBuffer = this.audioContext.createBuffer(1, int16Array.length, 24000)
-    const channelData = audioBuffer.getChannelData(0)
-    
-    // Convert 16-bit PCM to float32
-    for (let i = 0; i < int16Array.length; i++) {
-      channelData[i] = int16Array[i] / 32768.0
-    }
-    
-    return audioBuffer
+  // A new question supersedes whatever was being discarded from the previous answer
+  private beginUserTurn() {
+    this.isReceivingAnswer = true
+    this.isDiscardingAnswer = false
   }
 
-  private playNextAudio() {
-    if (this.audioQueue.length === 0) {
-      this.isPlaying = false
-      this.onAudioPlaybackComplete?.()
-      return
-    }
-
-    if (!this.audioContext) return
-
-    this.isPlaying = true
-    this.onAudioPlaybackStart?.()
-    
-    const audioBuffer = this.audioQueue.shift()!
-    this.currentSource = this.audioContext.createBufferSource()
-    this.currentSource.buffer = audioBuffer
-    this.currentSource.connect(this.audioContext.destination)
-    
-    this.currentSource.onended = () => {
-      this.playNextAudio()
-    }
-    
-    this.currentSource.start()
+  private endServerTurn() {
+    this.isReceivingAnswer = false
+    this.isDiscardingAnswer = false
   }
 
   async sendTextMessage(text: string) {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (this.connectionState === 'disconnected') {
       throw new Error('Not connected to Gemini Live API')
     }
 
-    const message = {
+    const message: ClientContentMessage = {
       clientContent: {
         turns: [{
           role: "user",
@@ -234,102 +444,66 @@ export class GeminiLiveService {
       }
     }
 
-    this.ws.send(JSON.stringify(message))
+    this.beginUserTurn()
+    this.sendOrQueue(message)
   }
 
-  async sendAudioMessage(audioBlob: Blob) {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('Not connected to Gemini Live API')
-    }
+  // Streams one frame of 16 kHz Int16 microphone audio while the user is still talking
+  sendAudioChunk(pcm: ArrayBuffer) {
+    // Realtime audio is useless once stale, so frames are dropped rather than queued
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.isSetupComplete) return
 
-    try {
-      // Convert audio blob to the required format
-      const arrayBuffer = await audioBlob.arrayBuffer()
-      const audioData = await this.convertAudioToPCM(arrayBuffer)
-      const base64Audio = btoa(String.fromCharCode(...new Uint8Array(audioData)))
-
-      const message = {
-        realtimeInput: {
-          mediaChunks: [{
-            mimeType: "audio/pcm",
-            data: base64Audio
-          }]
-        }
+    const message: RealtimeInputMessage = {
+      realtimeInput: {
+        mediaChunks: [{
+          mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
+          data: arrayBufferToBase64(pcm)
+        }]
       }
-
-      this.ws.send(JSON.stringify(message))
-    } catch (error) {
-      console.error('Error sending audio message:', error)
-      throw error
     }
+
+    this.ws.send(JSON.stringify(message))
   }
 
-  private async convertAudioToPCM(audioData: ArrayBuffer): Promise<ArrayBuffer> {
-    // Create audio context for conversion
-    const audioContext = new AudioContext({ sampleRate: 16000 })
-    
-    try {
-      // Decode the audio data
-      const audioBuffer = await audioContext.decodeAudioData(audioData.slice(0))
-      
-      // Resample to 16kHz mono if needed
-      const targetSampleRate = 16000
-      const targetChannels = 1
-      
-      let resampledBuffer = audioBuffer
-      
-      if (audioBuffer.sampleRate !== targetSampleRate || audioBuffer.numberOfChannels !== targetChannels) {
-        const offlineContext = new OfflineAudioContext(
-          targetChannels,
-          Math.ceil(audioBuffer.duration * targetSampleRate),
-          targetSampleRate
-        )
-        
-        const source = offlineContext.createBufferSource()
-        source.buffer = audioBuffer
-        source.connect(offlineContext.destination)
-        source.start()
-        
-        resampledBuffer = await offlineContext.startRendering()
-      }
-      
-      // Convert to 16-bit PCM
-      const channelData = resampledBuffer.getChannelData(0)
-      const pcmData = new Int16Array(channelData.length)
-      
-      for (let i = 0; i < channelData.length; i++) {
-        const sample = Math.max(-1, Math.min(1, channelData[i]))
-        pcmData[i] = sample * 32767
+  // Tells the model the microphone stream is finished so it can answer immediately
+  endAudioStream() {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || !this.isSetupComplete) return
+
+    const message: RealtimeInputMessage = {
+      realtimeInput: {
+        audioStreamEnd: true
       }
-      
-      return pcmData.buffer
-    } finally {
-      await audioContext.close()
     }
+
+    this.beginUserTurn()
+    this.ws.send(JSON.stringify(message))
   }
 
-  stopAudioPlayback() {
-    if (this.currentSource) {
-      this.currentSource.stop()
-      this.currentSource = null
+  // A local stop (tap, barge-in or Stop while the answer is being prepared): audio of this answer that is
+  // still on its way is dropped until the server ends the turn, instead of starting it over mid-sentence
+  stopAudioPlayback(): PlaybackPosition {
+    if (this.isReceivingAnswer) {
+      this.isDiscardingAnswer = true
     }
-    this.audioQueue = []
-    this.isPlaying = false
-    this.onAudioPlaybackComplete?.()
+    return this.playback.stop()
   }
 
   disconnect() {
+    this.isClosedByClient = true
+    this.messageQueue = []
+    this.cancelAllToolCalls()
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+
     if (this.ws) {
       this.ws.close()
       this.ws = null
     }
-    
-    if (this.audioContext) {
-      this.audioContext.close()
-      this.audioContext = null
-    }
-    
-    this.stopAudioPlayback()
+    this.setConnectionState('disconnected')
+    this.playback.close()
     this.isConnected = false
   }
 
@@ -337,7 +511,17 @@ export class GeminiLiveService {
   onTextResponse?: (text: string) => void
   onCitationsReceived?: (citations: GroundingCitation[]) => void
   onTurnComplete?: () => void
+  onInterrupted?: () => void
+  onInputTranscription?: (text: string) => void
+  onOutputTranscription?: (text: string) => void
+  onToolCall?: (invocation: ToolInvocation) => void
+  onToolResult?: (invocation: ToolInvocation) => void
+  onToolCancelled?: (id: string) => void
   onAudioPlaybackStart?: () => void
   onAudioPlaybackComplete?: () => void
+  onPlaybackPosition?: (position: PlaybackPosition) => void
+  onSessionResumptionUpdate?: (handle: string | null) => void
+  onConnectionStateChange?: (state: LiveConnectionState) => void
+  onUsageMetadata?: (usage: UsageMetadata) => void
   onError?: (error: Error) => void
 }
\ No newline at end of file
@@ -0,0 +1,186 @@
+// Gemini Live API protocol model for ZAIVA
+// Outgoing frames are typed; incoming frames are validated with zod before use
+import { z } from 'zod'
+
+// --- Shared content shapes ---
+
+const InlineDataSchema = z.object({
+  mimeType: z.string(),
+  data: z.string()
+})
+
+const PartSchema = z.object({
+  text: z.string().optional(),
+  inlineData: InlineDataSchema.optional()
+})
+
+const ContentSchema = z.object({
+  role: z.string().optional(),
+  parts: z.array(PartSchema).default([])
+})
+
+export type LivePart = z.infer<typeof PartSchema>
+export type LiveContent = z.infer<typeof ContentSchema>
+
+// --- Client -> server ---
+
+export interface SetupMessage {
+  setup: {
+    model: string
+    generationConfig?: {
+      temperature?: number
+      topP?: number
+      topK?: number
+      maxOutputTokens?: number
+      responseModalities?: Array<'AUDIO' | 'TEXT'>
+      speechConfig?: {
+        voiceConfig?: {
+          prebuiltVoiceConfig?: { voiceName: string }
+        }
+      }
+    }
+    systemInstruction?: { parts: Array<{ text: string }> }
+    tools?: Array<Record<string, unknown>>
+    sessionResumption?: { handle?: string }
+    inputAudioTranscription?: Record<string, never>
+    outputAudioTranscription?: Record<string, never>
+  }
+}
+
+export interface ClientContentMessage {
+  clientContent: {
+    turns: Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }>
+    turnComplete: boolean
+  }
+}
+
+export interface RealtimeInputMessage {
+  realtimeInput: {
+    mediaChunks?: Array<{ mimeType: string; data: string }>
+    audioStreamEnd?: boolean
+  }
+}
+
+export interface ToolResponseMessage {
+  toolResponse: {
+    functionResponses: Array<{ id: string; name: string; response: Record<string, unknown> }>
+  }
+}
+
+export type ClientMessage =
+  | SetupMessage
+  | ClientContentMessage
+  | RealtimeInputMessage
+  | ToolResponseMessage
+
+// --- Server -> client ---
+
+const SegmentSchema = z.object({
+  startIndex: z.number().optional(),
+  endIndex: z.number().optional()
+})
+
+const GroundingMetadataSchema = z.object({
+  groundingChunks: z.array(z.object({
+    web: z.object({
+      uri: z.string().optional(),
+      title: z.string().optional()
+    }).optional()
+  })).optional(),
+  groundingSupports: z.array(z.object({
+    segment: SegmentSchema.optional(),
+    groundingChunkIndices: z.array(z.number()).optional()
+  })).optional(),
+  groundingAttributions: z.array(z.object({
+    segment: SegmentSchema.optional(),
+    web: z.object({
+      uri: z.string().optional(),
+      title: z.string().optional()
+    }).optional()
+  })).optional()
+})
+
+const TranscriptionSchema = z.object({
+  text: z.string().optional()
+})
+
+const ServerContentSchema = z.object({
+  modelTurn: ContentSchema.optional(),
+  turnComplete: z.boolean().optional(),
+  generationComplete: z.boolean().optional(),
+  interrupted: z.boolean().optional(),
+  groundingMetadata: GroundingMetadataSchema.optional(),
+  inputTranscription: TranscriptionSchema.optional(),
+  outputTranscription: TranscriptionSchema.optional()
+})
+
+const FunctionCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  args: z.record(z.string(), z.unknown()).optional()
+})
+
+const UsageMetadataSchema = z.object({
+  promptTokenCount: z.number().optional(),
+  responseTokenCount: z.number().optional(),
+  totalTokenCount: z.number().optional()
+})
+
+const ServerMessageSchema = z.object({
+  setupComplete: z.object({}).optional(),
+  serverContent: ServerContentSchema.optional(),
+  toolCall: z.object({
+    functionCalls: z.array(FunctionCallSchema).default([])
+  }).optional(),
+  toolCallCancellation: z.object({
+    ids: z.array(z.string()).default([])
+  }).optional(),
+  goAway: z.object({
+    timeLeft: z.string().optional()
+  }).optional(),
+  usageMetadata: UsageMetadataSchema.optional(),
+  sessionResumptionUpdate: z.object({
+    newHandle: z.string().optional(),
+    resumable: z.boolean().optional()
+  }).optional()
+})
+
+export type GroundingMetadata = z.infer<typeof GroundingMetadataSchema>
+export type ServerContent = z.infer<typeof ServerContentSchema>
+export type FunctionCall = z.infer<typeof FunctionCallSchema>
+export type UsageMetadata = z.infer<typeof UsageMetadataSchema>
+export type ServerMessage = z.infer<typeof ServerMessageSchema>
+
+export class LiveProtocolError extends Error {
+  readonly frame: string
+
+  constructor(message: string, frame: string) {
+    super(message)
+    this.name = 'LiveProtocolError'
+    this.frame = frame
+  }
+}
+
+export function parseServerMessage(frame: string): ServerMessage {
+  let json: unknown
+  try {
+    json = JSON.parse(frame)
+  } catch {
+    throw new LiveProtocolError('Live API sent a frame that is not valid JSON', frame)
+  }
+
+  const result = ServerMessageSchema.safeParse(json)
+  if (!result.success) {
+    const details = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'message'}: ${issue.message}`)
+      .join('; ')
+    throw new LiveProtocolError(`Malformed Live API message (${details})`, frame)
+  }
+
+  // Message kinds added to the protocol after this was written are not errors; they are just not handled
+  if (Object.values(result.data).every(value => value === undefined)) {
+    console.debug('Ignoring unrecognised Live API message:', frame.slice(0, 200))
+  }
+
+  return result.data
+}
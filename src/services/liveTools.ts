@@ -0,0 +1,106 @@
+// Client-side tools the Gemini Live session can call on behalf of ZAIVA
+import { blink, SINGLETON_USER } from '../blink/client'
+import type { Conversation } from '../types/zaiva'
+
+// Subset of OpenAPI schema accepted by Gemini function declarations
+export interface ToolParameterSchema {
+  type: 'OBJECT' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN' | 'ARRAY'
+  description?: string
+  properties?: Record<string, ToolParameterSchema>
+  required?: string[]
+  items?: ToolParameterSchema
+  enum?: string[]
+}
+
+export interface FunctionDeclaration {
+  name: string
+  description: string
+  parameters?: ToolParameterSchema
+}
+
+export type ToolArgs = Record<string, unknown>
+export type ToolResult = Record<string, unknown>
+
+export interface LiveTool extends FunctionDeclaration {
+  // Handlers should stop work and reject once the signal aborts
+  handler: (args: ToolArgs, signal: AbortSignal) => Promise<ToolResult>
+}
+
+export class LiveToolRegistry {
+  private tools = new Map<string, LiveTool>()
+
+  register(tool: LiveTool) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`)
+    }
+    this.tools.set(tool.name, tool)
+    return this
+  }
+
+  has(name: string) {
+    return this.tools.has(name)
+  }
+
+  get declarations(): FunctionDeclaration[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) => (
+      parameters ? { name, description, parameters } : { name, description }
+    ))
+  }
+
+  async invoke(name: string, args: ToolArgs, signal: AbortSignal): Promise<ToolResult> {
+    const tool = this.tools.get(name)
+    if (!tool) {
+      throw new Error(`Unknown tool "${name}"`)
+    }
+    return tool.handler(args, signal)
+  }
+}
+
+const getCurrentTime: LiveTool = {
+  name: 'get_current_time',
+  description: "Returns the current date, time and time zone of the user's device.",
+  handler: async () => {
+    const now = new Date()
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    }
+  }
+}
+
+const searchConversations: LiveTool = {
+  name: 'search_conversations',
+  description: 'Searches the titles of earlier ZAIVA conversations and returns the most recent matches.',
+  parameters: {
+    type: 'OBJECT',
+    properties: {
+      query: { type: 'STRING', description: 'Words to look for in conversation titles' },
+      limit: { type: 'INTEGER', description: 'Maximum number of matches to return (default 5)' }
+    },
+    required: ['query']
+  },
+  handler: async (args, signal) => {
+    const query = String(args.query ?? '').trim().toLowerCase()
+    const limit = Math.min(Math.max(Number(args.limit) || 5, 1), 20)
+
+    const conversations: Conversation[] = await blink.db.conversations.list({
+      where: { userId: SINGLETON_USER.id },
+      orderBy: { updatedAt: 'desc' }
+    })
+    signal.throwIfAborted()
+
+    const matches = conversations
+      .filter(conversation => conversation.title.toLowerCase().includes(query))
+      .slice(0, limit)
+      .map(({ title, updatedAt }) => ({ title, updatedAt }))
+
+    return { matches }
+  }
+}
+
+export function createDefaultToolRegistry() {
+  return new LiveToolRegistry()
+    .register(getCurrentTime)
+    .register(searchConversations)
+}
@@ -0,0 +1,141 @@
+// Models ZAIVA can answer with, and the generation parameters each of them honours
+import type { ConversationEngine, ConversationModelConfig, GenerationParams } from '../types/zaiva'
+
+export type GenerationParam = keyof GenerationParams
+
+export interface ModelInfo {
+  id: string // name sent to the provider
+  label: string
+  description: string
+  engine: ConversationEngine
+  provider: string // id in the provider registry
+  // Parameters the provider accepts for this model; the rest are left out of requests
+  params: GenerationParam[]
+  maxOutputTokens: number
+}
+
+export const MODEL_CATALOG: ModelInfo[] = [
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    description: 'Fast and inexpensive, good for everyday questions',
+    engine: 'classic',
+    provider: 'blink',
+    params: ['temperature', 'maxOutputTokens'],
+    maxOutputTokens: 16384
+  },
+  {
+    id: 'gpt-4o',
+    label: 'GPT-4o',
+    description: 'Stronger reasoning and writing, slower to answer',
+    engine: 'classic',
+    provider: 'blink',
+    params: ['temperature', 'maxOutputTokens'],
+    maxOutputTokens: 16384
+  },
+  {
+    id: 'gpt-4.1-mini',
+    label: 'GPT-4.1 mini',
+    description: 'Follows long instructions closely',
+    engine: 'classic',
+    provider: 'blink',
+    params: ['temperature', 'maxOutputTokens'],
+    maxOutputTokens: 32768
+  },
+  {
+    // Answered through the gemini-live edge function, whose TEXT_MODELS must list it
+    id: 'gemini-1.5-flash',
+    label: 'Gemini 1.5 Flash',
+    description: 'Fast answers grounded in Google Search, with inline citations',
+    engine: 'classic',
+    provider: 'gemini',
+    params: ['temperature', 'topP', 'topK', 'maxOutputTokens'],
+    maxOutputTokens: 8192
+  },
+  {
+    id: 'gemini-1.5-pro',
+    label: 'Gemini 1.5 Pro',
+    description: 'Deeper answers grounded in Google Search, with inline citations',
+    engine: 'classic',
+    provider: 'gemini',
+    params: ['temperature', 'topP', 'topK', 'maxOutputTokens'],
+    maxOutputTokens: 8192
+  },
+  {
+    // Stands for whichever model the local server is configured with in Settings
+    id: 'local',
+    label: 'Local model (OpenAI-compatible)',
+    description: 'Your own server, e.g. llama.cpp or Ollama. No web search or citations.',
+    engine: 'classic',
+    provider: 'local',
+    params: ['temperature', 'topP', 'maxOutputTokens'],
+    maxOutputTokens: 32768
+  },
+  {
+    id: 'gemini-2.0-flash-exp',
+    label: 'Gemini 2.0 Flash (experimental)',
+    description: 'Real-time voice with Google Search',
+    engine: 'live',
+    provider: 'gemini',
+    params: ['temperature', 'topP', 'topK', 'maxOutputTokens'],
+    maxOutputTokens: 8192
+  },
+  {
+    id: 'gemini-2.0-flash-live-001',
+    label: 'Gemini 2.0 Flash Live',
+    description: 'Stable release of the real-time voice model',
+    engine: 'live',
+    provider: 'gemini',
+    params: ['temperature', 'topP', 'topK', 'maxOutputTokens'],
+    maxOutputTokens: 8192
+  }
+]
+
+export const DEFAULT_MODEL_IDS: Record<ConversationEngine, string> = {
+  classic: 'gpt-4o-mini',
+  live: 'gemini-2.0-flash-exp'
+}
+
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  topP: 0.95,
+  topK: 40,
+  maxOutputTokens: 2048
+}
+
+export const DEFAULT_MODEL_CONFIG: ConversationModelConfig = {
+  models: {},
+  params: DEFAULT_GENERATION_PARAMS
+}
+
+// What a single request is sent with: the model and only the parameters it understands
+export interface ModelSelection {
+  provider: string
+  model: string
+  params: Partial<GenerationParams>
+}
+
+export function findModel(id: string | undefined): ModelInfo | undefined {
+  return MODEL_CATALOG.find(model => model.id === id)
+}
+
+export function modelsForEngine(engine: ConversationEngine): ModelInfo[] {
+  return MODEL_CATALOG.filter(model => model.engine === engine)
+}
+
+// Falls back to the engine's default when the conversation names no model, or one that has left the catalog
+export function resolveModelSelection(
+  config: ConversationModelConfig | undefined,
+  engine: ConversationEngine
+): ModelSelection {
+  const chosen = findModel(config?.models[engine])
+  const model = chosen?.engine === engine ? chosen : findModel(DEFAULT_MODEL_IDS[engine])!
+  const values = { ...DEFAULT_GENERATION_PARAMS, ...config?.params }
+
+  const params: Partial<GenerationParams> = {}
+  model.params.forEach(param => {
+    params[param] = param === 'maxOutputTokens' ? Math.min(values[param], model.maxOutputTokens) : values[param]
+  })
+
+  return { provider: model.provider, model: model.id, params }
+}
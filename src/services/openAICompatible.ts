@@ -0,0 +1,156 @@
+// Provider "local": any server speaking the OpenAI chat completions API, e.g. llama.cpp or Ollama
+// Nothing leaves the configured server, so there is no web search and answers carry no citations
+import type { AIProvider, AIResponse, TextRequestOptions } from './aiProvider'
+import type { ChatMessage } from './conversationContext'
+import type { LocalModelConfig, ZaivaSettings } from '../types/zaiva'
+import { expandPromptTemplate } from './promptTemplate'
+import { readServerSentEvents } from '../lib/sse'
+import { AIError, classifyError, errorFromResponse } from './aiErrors'
+
+// Names used by OpenAI itself; local servers that offer audio endpoints generally accept them too
+const TRANSCRIPTION_MODEL = 'whisper-1'
+const SPEECH_MODEL = 'tts-1'
+const SPEECH_VOICE = 'alloy'
+
+export class OpenAICompatibleProvider implements AIProvider {
+  private config: LocalModelConfig = { baseUrl: '', model: '' }
+  // Object URLs of generated speech; each one is released when the next is made
+  private speechUrl: string | null = null
+
+  // Settings can change at any time; requests always use the latest server and model
+  applySettings(settings: ZaivaSettings) {
+    this.config = { ...settings.localModel }
+  }
+
+  async sendTextMessage(content: string, options: TextRequestOptions = {}): Promise<AIResponse> {
+    console.log('Sending text message to local model:', { contentLength: content.length, model: this.config.model })
+
+    const response = await this.post('/chat/completions', this.buildRequest(content, options, false), options.signal)
+    const data = await response.json()
+    const choice = data.choices?.[0]
+    if (!choice?.message?.content && choice?.finish_reason === 'content_filter') {
+      throw new AIError('safety', 'The local model withheld its answer')
+    }
+
+    return { text: choice?.message?.content ?? '', grounded: false }
+  }
+
+  async *streamTextMessage(content: string, options: TextRequestOptions = {}): AsyncGenerator<string, AIResponse> {
+    console.log('Streaming text message from local model:', { contentLength: content.length, model: this.config.model })
+
+    const response = await this.post('/chat/completions', this.buildRequest(content, options, true), options.signal)
+    if (!response.body) {
+      throw new Error('Local model returned an empty stream')
+    }
+
+    let text = ''
+    for await (const event of readServerSentEvents(response.body)) {
+      if (event === '[DONE]') break
+
+      const delta: string = JSON.parse(event).choices?.[0]?.delta?.content ?? ''
+      if (delta) {
+        text += delta
+        yield delta
+      }
+    }
+
+    return { text, grounded: false }
+  }
+
+  async transcribeAudio(audioBlob: Blob, signal?: AbortSignal): Promise<string> {
+    const form = new FormData()
+    form.append('file', audioBlob, 'speech.webm')
+    form.append('model', TRANSCRIPTION_MODEL)
+
+    try {
+      const response = await this.post('/audio/transcriptions', form, signal)
+      const data = await response.json()
+      return data.text ?? ''
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.error('Local transcription error:', error)
+      throw classifyError(error)
+    }
+  }
+
+  async generateSpeech(text: string, signal?: AbortSignal): Promise<string> {
+    try {
+      const response = await this.post('/audio/speech', {
+        model: SPEECH_MODEL,
+        voice: SPEECH_VOICE,
+        input: text
+      }, signal)
+      const audio = await response.blob()
+
+      if (this.speechUrl) {
+        URL.revokeObjectURL(this.speechUrl)
+      }
+      this.speechUrl = URL.createObjectURL(audio)
+      return this.speechUrl
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.error('Local speech generation error:', error)
+      throw classifyError(error)
+    }
+  }
+
+  // The catalog has a single "local" entry, so the model always comes from the configuration;
+  // topK is not part of the OpenAI API and is left out
+  private buildRequest(content: string, { systemInstruction, history = [], params }: TextRequestOptions, stream: boolean) {
+    const messages: ChatMessage[] = [
+      ...(systemInstruction?.trim()
+        ? [{ role: 'system' as const, content: expandPromptTemplate(systemInstruction) }]
+        : []),
+      ...history,
+      { role: 'user', content }
+    ]
+
+    return {
+      model: this.config.model,
+      messages,
+      stream,
+      temperature: params?.temperature,
+      top_p: params?.topP,
+      max_tokens: params?.maxOutputTokens
+    }
+  }
+
+  private async post(path: string, body: Record<string, unknown> | FormData, signal?: AbortSignal): Promise<Response> {
+    const { baseUrl, apiKey } = this.config
+    if (!baseUrl.trim()) {
+      throw new AIError('invalid_input', 'No local model server is configured. Set its address in Settings.')
+    }
+
+    const isForm = body instanceof FormData
+    const response = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}${path}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: isForm ? body : JSON.stringify(body)
+    })
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Local model')
+    }
+
+    return response
+  }
+}
+
+// The server's API key stays in localStorage and is never saved with the rest of the settings
+const API_KEY_STORAGE_KEY = 'zaiva.localModelApiKey'
+
+export function loadLocalModelApiKey(): string | undefined {
+  return localStorage.getItem(API_KEY_STORAGE_KEY) || undefined
+}
+
+export function saveLocalModelApiKey(apiKey: string | undefined) {
+  if (apiKey) {
+    localStorage.setItem(API_KEY_STORAGE_KEY, apiKey)
+  } else {
+    localStorage.removeItem(API_KEY_STORAGE_KEY)
+  }
+}
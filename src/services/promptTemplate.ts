@@ -0,0 +1,41 @@
+// Template variables for ZAIVA's system instructions, expanded when each request is built
+import { SINGLETON_USER } from '../blink/client'
+
+export interface PromptVariable {
+  name: string
+  description: string
+  resolve: (now: Date) => string
+}
+
+export const PROMPT_VARIABLES: PromptVariable[] = [
+  {
+    name: 'date',
+    description: 'Current date, e.g. Monday, 19 October 2026',
+    resolve: now => now.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })
+  },
+  {
+    name: 'time',
+    description: 'Current local time',
+    resolve: now => now.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+  },
+  {
+    name: 'timezone',
+    description: 'Time zone of this device',
+    resolve: () => Intl.DateTimeFormat().resolvedOptions().timeZone
+  },
+  {
+    name: 'userName',
+    description: 'Your full name',
+    resolve: () => SINGLETON_USER.name
+  }
+]
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+// Unknown variables are left untouched so typos stay visible in the prompt
+export function expandPromptTemplate(template: string, now = new Date()): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => {
+    const variable = PROMPT_VARIABLES.find(candidate => candidate.name === name)
+    return variable ? variable.resolve(now) : match
+  })
+}
@@ -0,0 +1,59 @@
+// AI providers ZAIVA can route requests to, by id
+// Catalog models name their provider, so adding a backend means registering it here and listing its models
+import type { AIProvider } from './aiProvider'
+import type { ZaivaSettings } from '../types/zaiva'
+import { AIService } from './aiService'
+import { AIServiceSimple } from './aiServiceSimple'
+import { OpenAICompatibleProvider } from './openAICompatible'
+
+export type ProviderFactory = () => AIProvider
+
+export class AIProviderRegistry {
+  private factories = new Map<string, ProviderFactory>()
+  // Providers are created on first use and shared afterwards
+  private instances = new Map<string, AIProvider>()
+  // Latest user settings, handed to providers created later as well
+  private settings: ZaivaSettings | null = null
+
+  register(id: string, factory: ProviderFactory) {
+    if (this.factories.has(id)) {
+      throw new Error(`AI provider "${id}" is already registered`)
+    }
+    this.factories.set(id, factory)
+    return this
+  }
+
+  has(id: string) {
+    return this.factories.has(id)
+  }
+
+  get(id: string): AIProvider {
+    const existing = this.instances.get(id)
+    if (existing) return existing
+
+    const factory = this.factories.get(id)
+    if (!factory) {
+      throw new Error(`Unknown AI provider "${id}"`)
+    }
+    const provider = factory()
+    if (this.settings) {
+      provider.applySettings?.(this.settings)
+    }
+    this.instances.set(id, provider)
+    return provider
+  }
+
+  applySettings(settings: ZaivaSettings) {
+    this.settings = settings
+    this.instances.forEach(provider => provider.applySettings?.(settings))
+  }
+}
+
+export function createDefaultProviderRegistry() {
+  return new AIProviderRegistry()
+    .register('blink', () => new AIServiceSimple())
+    .register('gemini', () => new AIService())
+    .register('local', () => new OpenAICompatibleProvider())
+}
+
+export const aiProviders = createDefaultProviderRegistry()
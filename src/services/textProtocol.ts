@@ -0,0 +1,72 @@
+// Text request contract of the gemini-live edge function (see functions/gemini-live/index.ts)
+// Requests are typed; responses are validated with zod before use
+import { z } from 'zod'
+import type { GenerationParams } from '../types/zaiva'
+import type { ChatMessage } from './conversationContext'
+
+// --- Client -> function ---
+
+export interface TextRequest {
+  type: 'text' | 'audio'
+  // The message text, or base64 audio of mimeType
+  content: string
+  mimeType?: string
+  history?: ChatMessage[]
+  systemInstruction?: string
+  // One of the function's allowed models; anything else is rejected with a 400
+  model?: string
+  generationConfig?: Partial<GenerationParams>
+  tools?: { search?: boolean; codeExecution?: boolean }
+  stream?: boolean
+}
+
+// --- Function -> client ---
+
+const CitationSchema = z.object({
+  startIndex: z.number().optional(),
+  endIndex: z.number().optional(),
+  uri: z.string(),
+  title: z.string()
+})
+
+const TextResponseSchema = z.object({
+  text: z.string(),
+  citations: z.array(CitationSchema),
+  usage: z.object({
+    promptTokens: z.number(),
+    outputTokens: z.number(),
+    totalTokens: z.number()
+  }).nullable(),
+  finishReason: z.enum(['stop', 'length', 'safety', 'other']).nullable(),
+  model: z.string()
+})
+
+// Streamed answers: deltas, then one 'done' with the complete response or an 'error'
+const TextStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('delta'), text: z.string() }),
+  z.object({ type: z.literal('done'), response: TextResponseSchema }),
+  z.object({ type: z.literal('error'), error: z.string(), details: z.string() })
+])
+
+export type TextResponse = z.infer<typeof TextResponseSchema>
+export type TextStreamEvent = z.infer<typeof TextStreamEventSchema>
+
+function parseWith<T>(schema: z.ZodType<T>, json: unknown): T {
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    const details = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`Malformed AI service response (${details})`)
+  }
+  return result.data
+}
+
+export function parseTextResponse(json: unknown): TextResponse {
+  return parseWith(TextResponseSchema, json)
+}
+
+// data is the payload of one server-sent event
+export function parseTextStreamEvent(data: string): TextStreamEvent {
+  return parseWith(TextStreamEventSchema, JSON.parse(data))
+}
@@ -0,0 +1,129 @@
+// Voice Activity Detection for ZAIVA
+// Energy + spectral detector that runs on the AnalyserNode of the recording pipeline
+import type { VoiceActivityConfig } from '../types/zaiva'
+
+export type VoiceActivityEvent = 'speech-start' | 'speech-end' | 'max-duration'
+
+export const DEFAULT_VOICE_ACTIVITY: VoiceActivityConfig = {
+  silenceThreshold: -50,
+  hangoverMs: 1200,
+  maxUtteranceMs: 30000
+}
+
+// Human speech concentrates its energy roughly between 300 Hz and 3.4 kHz
+const SPEECH_BAND_LOW_HZ = 300
+const SPEECH_BAND_HIGH_HZ = 3400
+const MIN_SPEECH_BAND_RATIO = 0.45
+// Speech must be sustained this long before it counts, so clicks and bumps are ignored
+const MIN_SPEECH_MS = 150
+const NOISE_FLOOR_SMOOTHING = 0.05
+
+export interface VoiceActivityOptions {
+  minSpeechMs?: number
+  // When set, speech must also rise this many dB above a running estimate of the
+  // background level. Used while ZAIVA is talking, where residual echo leaks past AEC.
+  adaptiveMarginDb?: number
+}
+
+export class VoiceActivityDetector {
+  private analyser: AnalyserNode
+  private config: VoiceActivityConfig
+  private minSpeechMs: number
+  private adaptiveMarginDb: number | null
+  private noiseFloorDb: number | null = null
+  private timeData: Float32Array<ArrayBuffer>
+  private frequencyData: Float32Array<ArrayBuffer>
+  private startedAt: number
+  private candidateSince: number | null = null
+  private speechStartedAt: number | null = null
+  private lastSpeechAt = 0
+
+  constructor(
+    analyser: AnalyserNode,
+    config: VoiceActivityConfig,
+    options: VoiceActivityOptions = {},
+    now = performance.now()
+  ) {
+    this.analyser = analyser
+    this.config = config
+    this.minSpeechMs = options.minSpeechMs ?? MIN_SPEECH_MS
+    this.adaptiveMarginDb = options.adaptiveMarginDb ?? null
+    this.timeData = new Float32Array(analyser.fftSize)
+    this.frequencyData = new Float32Array(analyser.frequencyBinCount)
+    this.startedAt = now
+  }
+
+  get hasDetectedSpeech() {
+    return this.speechStartedAt !== null
+  }
+
+  update(now = performance.now()): VoiceActivityEvent | null {
+    if (now - this.startedAt >= this.config.maxUtteranceMs) {
+      return 'max-duration'
+    }
+
+    const isSpeech = this.isSpeechFrame()
+
+    if (this.speechStartedAt === null) {
+      if (!isSpeech) {
+        this.candidateSince = null
+        return null
+      }
+
+      this.candidateSince ??= now
+      if (now - this.candidateSince < this.minSpeechMs) return null
+
+      this.speechStartedAt = this.candidateSince
+      this.lastSpeechAt = now
+      return 'speech-start'
+    }
+
+    if (isSpeech) {
+      this.lastSpeechAt = now
+      return null
+    }
+
+    return now - this.lastSpeechAt >= this.config.hangoverMs ? 'speech-end' : null
+  }
+
+  private isSpeechFrame(): boolean {
+    this.analyser.getFloatTimeDomainData(this.timeData)
+
+    let sumSquares = 0
+    for (let i = 0; i < this.timeData.length; i++) {
+      sumSquares += this.timeData[i] * this.timeData[i]
+    }
+    const rms = Math.sqrt(sumSquares / this.timeData.length)
+    const levelDb = 20 * Math.log10(rms || 1e-10)
+
+    let threshold = this.config.silenceThreshold
+    if (this.adaptiveMarginDb !== null) {
+      this.noiseFloorDb ??= levelDb
+      threshold = Math.max(threshold, this.noiseFloorDb + this.adaptiveMarginDb)
+      // Track the floor only on quiet frames so the user's own speech doesn't raise it
+      if (levelDb < threshold) {
+        this.noiseFloorDb += (levelDb - this.noiseFloorDb) * NOISE_FLOOR_SMOOTHING
+      }
+    }
+
+    if (levelDb < threshold) return false
+
+    // Reject loud but non-voice noise (fans, hum, hiss) by its spectral shape
+    this.analyser.getFloatFrequencyData(this.frequencyData)
+
+    const binHz = this.analyser.context.sampleRate / this.analyser.fftSize
+    let bandPower = 0
+    let totalPower = 0
+
+    for (let i = 1; i < this.frequencyData.length; i++) {
+      const power = Math.pow(10, this.frequencyData[i] / 10)
+      const frequency = i * binHz
+      totalPower += power
+      if (frequency >= SPEECH_BAND_LOW_HZ && frequency <= SPEECH_BAND_HIGH_HZ) {
+        bandPower += power
+      }
+    }
+
+    return totalPower > 0 && bandPower / totalPower >= MIN_SPEECH_BAND_RATIO
+  }
+}
@@ -0,0 +1,322 @@
+// Local wake-word ("Hey ZAIVA") spotting for ZAIVA
+// Everything here runs in the browser: the microphone is only analysed into
+// MFCC features and compared against templates the user enrolled on this device.
+// No audio is recorded or transmitted before the wake word has been heard.
+import type { WakeWordModel } from '../types/zaiva'
+
+export const WAKE_WORD_PHRASE = 'Hey ZAIVA'
+
+const STORAGE_KEY = 'zaiva.wakeWordModel'
+const SAMPLE_RATE = 16000
+const FFT_SIZE = 512
+const FRAME_INTERVAL_MS = 20
+const MEL_FILTERS = 24
+const MFCC_COEFFICIENTS = 12
+const MEL_LOW_HZ = 100
+const MEL_HIGH_HZ = 4000
+
+// Segmentation of candidate phrases
+const ONSET_LEVEL_DB = -45
+const SEGMENT_SILENCE_MS = 300
+const PRE_ROLL_FRAMES = 5
+const MIN_SEGMENT_FRAMES = 15 // 300ms
+const MAX_SEGMENT_FRAMES = 100 // 2s, longer than any wake phrase
+
+interface FeatureFrame {
+  mfcc: number[]
+  levelDb: number
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700)
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1)
+
+function createMelFilterbank(binCount: number): number[][] {
+  const lowMel = hzToMel(MEL_LOW_HZ)
+  const highMel = hzToMel(MEL_HIGH_HZ)
+  const binHz = SAMPLE_RATE / FFT_SIZE
+  const centers = Array.from({ length: MEL_FILTERS + 2 }, (_, i) =>
+    melToHz(lowMel + (i * (highMel - lowMel)) / (MEL_FILTERS + 1)) / binHz
+  )
+
+  return Array.from({ length: MEL_FILTERS }, (_, f) => {
+    const weights = new Array<number>(binCount).fill(0)
+    const [left, center, right] = [centers[f], centers[f + 1], centers[f + 2]]
+    for (let bin = Math.floor(left); bin <= Math.ceil(right) && bin < binCount; bin++) {
+      if (bin > left && bin <= center) weights[bin] = (bin - left) / (center - left)
+      else if (bin > center && bin < right) weights[bin] = (right - bin) / (right - center)
+    }
+    return weights
+  })
+}
+
+// Polls an AnalyserNode on the microphone and turns each frame into MFCCs
+class FeatureStream {
+  private stream: MediaStream | null = null
+  private audioContext: AudioContext | null = null
+  private analyser: AnalyserNode | null = null
+  private timer: number | null = null
+  private filterbank: number[][] = []
+  private spectrum = new Float32Array(FFT_SIZE / 2)
+  private waveform = new Float32Array(FFT_SIZE)
+  private isActive = false
+
+  onFrame?: (frame: FeatureFrame) => void
+
+  async start() {
+    this.isActive = true
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        sampleRate: SAMPLE_RATE,
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true
+      }
+    })
+
+    // stop() may have been called while the permission prompt was open
+    if (!this.isActive) {
+      stream.getTracks().forEach(track => track.stop())
+      return
+    }
+
+    this.stream = stream
+    this.audioContext = new AudioContext({ sampleRate: SAMPLE_RATE })
+    const source = this.audioContext.createMediaStreamSource(this.stream)
+    this.analyser = this.audioContext.createAnalyser()
+    this.analyser.fftSize = FFT_SIZE
+    this.analyser.smoothingTimeConstant = 0
+    source.connect(this.analyser)
+
+    this.filterbank = createMelFilterbank(this.analyser.frequencyBinCount)
+    this.timer = window.setInterval(() => this.readFrame(), FRAME_INTERVAL_MS)
+  }
+
+  stop() {
+    this.isActive = false
+
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop())
+      this.stream = null
+    }
+
+    if (this.audioContext) {
+      this.audioContext.close()
+      this.audioContext = null
+    }
+
+    this.analyser = null
+  }
+
+  private readFrame() {
+    if (!this.analyser) return
+
+    this.analyser.getFloatTimeDomainData(this.waveform)
+    let sumSquares = 0
+    for (let i = 0; i < this.waveform.length; i++) {
+      sumSquares += this.waveform[i] * this.waveform[i]
+    }
+    const levelDb = 20 * Math.log10(Math.sqrt(sumSquares / this.waveform.length) || 1e-10)
+
+    this.analyser.getFloatFrequencyData(this.spectrum)
+    const logMel = this.filterbank.map(weights => {
+      let energy = 0
+      for (let bin = 0; bin < weights.length; bin++) {
+        if (weights[bin] > 0) energy += weights[bin] * Math.pow(10, this.spectrum[bin] / 10)
+      }
+      return Math.log(energy + 1e-10)
+    })
+
+    // DCT-II, dropping c0 so matching is independent of loudness
+    const mfcc: number[] = []
+    for (let k = 1; k <= MFCC_COEFFICIENTS; k++) {
+      let sum = 0
+      for (let n = 0; n < MEL_FILTERS; n++) {
+        sum += logMel[n] * Math.cos((Math.PI * k * (n + 0.5)) / MEL_FILTERS)
+      }
+      mfcc.push(sum)
+    }
+
+    this.onFrame?.({ mfcc, levelDb })
+  }
+}
+
+// Cepstral mean normalisation removes the microphone/room colouring
+function normalizeSegment(frames: number[][]): number[][] {
+  const mean = new Array<number>(MFCC_COEFFICIENTS).fill(0)
+  frames.forEach(frame => frame.forEach((value, i) => { mean[i] += value / frames.length }))
+  return frames.map(frame => frame.map((value, i) => value - mean[i]))
+}
+
+function frameDistance(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i]
+    sum += diff * diff
+  }
+  return Math.sqrt(sum)
+}
+
+// Dynamic time warping distance, normalised by path length
+function dtwDistance(a: number[][], b: number[][]): number {
+  if (Math.max(a.length, b.length) > 2 * Math.min(a.length, b.length)) return Infinity
+
+  let previous = new Float64Array(b.length + 1).fill(Infinity)
+  previous[0] = 0
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Float64Array(b.length + 1).fill(Infinity)
+    for (let j = 1; j <= b.length; j++) {
+      const cost = frameDistance(a[i - 1], b[j - 1])
+      current[j] = cost + Math.min(previous[j], current[j - 1], previous[j - 1])
+    }
+    previous = current
+  }
+
+  return previous[b.length] / (a.length + b.length)
+}
+
+// Sensitivity 0..1 widens or narrows the calibrated acceptance threshold
+const thresholdScale = (sensitivity: number) => 0.75 + sensitivity * 0.5
+
+export class WakeWordDetector {
+  private model: WakeWordModel
+  private sensitivity: number
+  private features = new FeatureStream()
+  private preRoll: number[][] = []
+  private segment: number[][] | null = null
+  private silentFrames = 0
+
+  onWake?: () => void
+  onError?: (error: Error) => void
+
+  constructor(model: WakeWordModel, sensitivity = 0.5) {
+    this.model = model
+    this.sensitivity = sensitivity
+    this.features.onFrame = (frame) => this.handleFrame(frame)
+  }
+
+  async start() {
+    try {
+      await this.features.start()
+    } catch (error) {
+      this.features.stop()
+      this.onError?.(error instanceof Error ? error : new Error('Failed to start wake word listener'))
+    }
+  }
+
+  stop() {
+    this.features.stop()
+    this.preRoll = []
+    this.segment = null
+    this.silentFrames = 0
+  }
+
+  private handleFrame({ mfcc, levelDb }: FeatureFrame) {
+    const isVoiced = levelDb >= ONSET_LEVEL_DB
+
+    if (!this.segment) {
+      this.preRoll.push(mfcc)
+      if (this.preRoll.length > PRE_ROLL_FRAMES) this.preRoll.shift()
+      if (isVoiced) {
+        this.segment = [...this.preRoll]
+        this.silentFrames = 0
+      }
+      return
+    }
+
+    this.segment.push(mfcc)
+    this.silentFrames = isVoiced ? 0 : this.silentFrames + 1
+
+    if (this.segment.length > MAX_SEGMENT_FRAMES) {
+      // Ordinary speech, not a short wake phrase
+      this.segment = null
+      this.preRoll = []
+      return
+    }
+
+    if (this.silentFrames * FRAME_INTERVAL_MS >= SEGMENT_SILENCE_MS) {
+      const candidate = this.segment.slice(0, this.segment.length - this.silentFrames)
+      this.segment = null
+      this.preRoll = []
+
+      if (candidate.length >= MIN_SEGMENT_FRAMES && this.matches(candidate)) {
+        this.onWake?.()
+      }
+    }
+  }
+
+  private matches(frames: number[][]): boolean {
+    const candidate = normalizeSegment(frames)
+    const best = Math.min(...this.model.templates.map(template => dtwDistance(candidate, template)))
+    return best <= this.model.threshold * thresholdScale(this.sensitivity)
+  }
+}
+
+// Records one enrollment sample of the wake phrase and returns its normalised MFCC frames
+export async function recordWakeWordSample(durationMs = 2500): Promise<number[][]> {
+  const features = new FeatureStream()
+  const frames: FeatureFrame[] = []
+  features.onFrame = (frame) => frames.push(frame)
+
+  await features.start()
+  try {
+    await new Promise(resolve => setTimeout(resolve, durationMs))
+  } finally {
+    features.stop()
+  }
+
+  const first = frames.findIndex(frame => frame.levelDb >= ONSET_LEVEL_DB)
+  const last = frames.map(frame => frame.levelDb >= ONSET_LEVEL_DB).lastIndexOf(true)
+  if (first === -1 || last - first + 1 < MIN_SEGMENT_FRAMES) {
+    throw new Error(`Could not hear "${WAKE_WORD_PHRASE}". Please try again a little louder.`)
+  }
+
+  return normalizeSegment(frames.slice(first, last + 1).map(frame => frame.mfcc))
+}
+
+// Calibrates the acceptance threshold from how much the enrolled samples differ from each other
+export function createWakeWordModel(templates: number[][][]): WakeWordModel {
+  const distances: number[] = []
+  for (let i = 0; i < templates.length; i++) {
+    for (let j = i + 1; j < templates.length; j++) {
+      const distance = dtwDistance(templates[i], templates[j])
+      if (Number.isFinite(distance)) distances.push(distance)
+    }
+  }
+
+  if (distances.length === 0) {
+    throw new Error('Wake word samples were too different from each other. Please record them again.')
+  }
+
+  const meanDistance = distances.reduce((sum, d) => sum + d, 0) / distances.length
+  return {
+    phrase: WAKE_WORD_PHRASE,
+    templates,
+    threshold: meanDistance * 1.25
+  }
+}
+
+// The model is kept in localStorage so voice-derived data never leaves this device
+export function loadWakeWordModel(): WakeWordModel | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) as WakeWordModel : null
+  } catch (error) {
+    console.warn('Failed to load wake word model:', error)
+    return null
+  }
+}
+
+export function saveWakeWordModel(model: WakeWordModel | null) {
+  if (model) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(model))
+  } else {
+    localStorage.removeItem(STORAGE_KEY)
+  }
+}
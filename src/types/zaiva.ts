@@ -16,36 +16,128 @@ export interface Conversation {
   createdAt: string
   updatedAt: string
   lastResumptionHandle?: string
+  modelConfig?: ConversationModelConfig
+  activeLeafId?: string // last message of the branch being shown
 }
 
 export interface Message {
   id: string
   conversationId: string
-  role: 'user' | 'assistant'
+  role: 'user' | 'assistant' | 'tool'
   content: string
   audioUrl?: string
   timestamp: string
+  parentId?: string // the message this one follows, or the conversation id for the first turn
   groundingCitations?: GroundingCitation[]
+  truncated?: boolean // the user interrupted ZAIVA while this answer was being spoken
+  incomplete?: boolean // the answer stopped streaming part way through
+  grounded?: boolean // the answer drew on web search results
+  toolInvocation?: ToolInvocation // set on role 'tool'
+  model?: string // catalog id of the model that wrote an assistant answer
+  generationParams?: Partial<GenerationParams> // the parameters that model was actually given
+  error?: MessageError // set on a user message whose answer failed
+  searchMode?: SearchMode // set on a user message: its web search choice, reused when it is answered again
+  // Every answer generated for this turn; content and the fields below it mirror variants[activeVariant]
+  variants?: MessageVariant[]
+  activeVariant?: number
 }
 
+// One generated answer to a user turn, kept so regenerating never loses an earlier one
+export interface MessageVariant {
+  content: string
+  groundingCitations?: GroundingCitation[]
+  grounded?: boolean
+  incomplete?: boolean
+  truncated?: boolean
+  model?: string
+  generationParams?: Partial<GenerationParams>
+  createdAt: string
+}
+
+export type AIErrorKind = 'auth' | 'rate_limit' | 'quota' | 'network' | 'safety' | 'invalid_input' | 'outage' | 'unknown'
+
+export interface MessageError {
+  kind: AIErrorKind
+  message: string
+}
+
+export type ToolInvocationStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+// A function the live model called on the user's device, and what came back
+export interface ToolInvocation {
+  id: string
+  name: string
+  args: Record<string, unknown>
+  status: ToolInvocationStatus
+  result?: Record<string, unknown>
+  error?: string
+}
+
+// startIndex/endIndex locate the cited span in the answer (UTF-16 offsets) when the provider reports it
 export interface GroundingCitation {
-  startIndex: number
-  endIndex: number
+  startIndex?: number
+  endIndex?: number
   uri: string
   title: string
 }
 
+export interface GenerationParams {
+  temperature: number
+  topP: number
+  topK: number
+  maxOutputTokens: number
+}
+
+// Model per engine and sampling parameters chosen for one conversation; see services/modelCatalog
+export interface ConversationModelConfig {
+  models: Partial<Record<ConversationEngine, string>>
+  params: GenerationParams
+}
+
+// An OpenAI-compatible chat completions server, e.g. llama.cpp or Ollama
+export interface LocalModelConfig {
+  baseUrl: string // up to and including /v1
+  model: string
+  apiKey?: string
+}
+
+// Per-message web search override from the composer; 'auto' follows ZaivaSettings.webSearchEnabled
+export type SearchMode = 'auto' | 'always' | 'never'
+
 export type VoiceState = 'idle' | 'listening' | 'processing' | 'speaking'
 
+// classic: speech-to-text -> LLM -> text-to-speech, live: Gemini Live real-time audio session
+export type ConversationEngine = 'classic' | 'live'
+
 export interface AudioConfig {
   sampleRate: number
   channels: number
   bitDepth: number
 }
 
+export interface VoiceActivityConfig {
+  silenceThreshold: number // dBFS, frames quieter than this count as silence
+  hangoverMs: number // trailing silence before the utterance is considered finished
+  maxUtteranceMs: number
+}
+
+// On-device keyword spotter model: MFCC frame sequences of the enrolled phrase
+export interface WakeWordModel {
+  phrase: string
+  templates: number[][][]
+  threshold: number
+}
+
 export interface ZaivaSettings {
   personalityConfig: string
+  conversationEngine: ConversationEngine
   voiceEnabled: boolean
   autoTranscription: boolean
   webSearchEnabled: boolean
+  handsFreeEnabled: boolean
+  bargeInEnabled: boolean
+  voiceActivity: VoiceActivityConfig
+  wakeWordEnabled: boolean
+  wakeWordSensitivity: number
+  localModel: LocalModelConfig
 }
\ No newline at end of file